@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "CrawlRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "CrawlRun" (
+    "id" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "status" "CrawlRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "args" TEXT[],
+    "atsFilter" TEXT[],
+    "companyFilter" TEXT[],
+    "newOnly" BOOLEAN NOT NULL DEFAULT false,
+    "repairWorkday" BOOLEAN NOT NULL DEFAULT false,
+    "companiesTotal" INTEGER NOT NULL DEFAULT 0,
+    "companiesSucceeded" INTEGER NOT NULL DEFAULT 0,
+    "companiesFailed" INTEGER NOT NULL DEFAULT 0,
+    "jobsFound" INTEGER NOT NULL DEFAULT 0,
+    "jobsCreated" INTEGER NOT NULL DEFAULT 0,
+    "jobsReactivated" INTEGER NOT NULL DEFAULT 0,
+    "jobsClosed" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+
+    CONSTRAINT "CrawlRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CrawlCompanyResult" (
+    "id" TEXT NOT NULL,
+    "crawlRunId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "platform" "SourcePlatform" NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "jobsFound" INTEGER NOT NULL DEFAULT 0,
+    "jobsCreated" INTEGER NOT NULL DEFAULT 0,
+    "jobsReactivated" INTEGER NOT NULL DEFAULT 0,
+    "jobsClosed" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CrawlCompanyResult_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CrawlRun_startedAt_idx" ON "CrawlRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "CrawlCompanyResult_crawlRunId_idx" ON "CrawlCompanyResult"("crawlRunId");
+
+-- CreateIndex
+CREATE INDEX "CrawlCompanyResult_companyId_startedAt_idx" ON "CrawlCompanyResult"("companyId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "CrawlCompanyResult_companyId_success_startedAt_idx" ON "CrawlCompanyResult"("companyId", "success", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "CrawlCompanyResult" ADD CONSTRAINT "CrawlCompanyResult_crawlRunId_fkey" FOREIGN KEY ("crawlRunId") REFERENCES "CrawlRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CrawlCompanyResult" ADD CONSTRAINT "CrawlCompanyResult_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "duplicateOfId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Job_duplicateOfId_idx" ON "Job"("duplicateOfId");
+
+-- AddForeignKey
+ALTER TABLE "Job" ADD CONSTRAINT "Job_duplicateOfId_fkey" FOREIGN KEY ("duplicateOfId") REFERENCES "Job"("id") ON DELETE SET NULL ON UPDATE CASCADE;
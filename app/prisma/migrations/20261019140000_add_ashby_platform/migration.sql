@@ -0,0 +1,2 @@
+-- Add ASHBY to SourcePlatform enum
+ALTER TYPE "SourcePlatform" ADD VALUE IF NOT EXISTS 'ASHBY';
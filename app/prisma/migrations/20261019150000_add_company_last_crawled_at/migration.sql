@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "lastCrawledAt" TIMESTAMP(3);
+
+-- Backfill from crawl history, falling back to the first crawl
+UPDATE "Company" AS c
+SET "lastCrawledAt" = COALESCE(
+  (SELECT MAX(r."finishedAt") FROM "CrawlCompanyResult" AS r WHERE r."companyId" = c."id"),
+  c."firstCrawledAt"
+);
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "JobCloseReason" AS ENUM ('MISSING_FROM_BOARD', 'NOT_FOUND_BY_ID');
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "closeReason" "JobCloseReason",
+ADD COLUMN     "closedAt" TIMESTAMP(3),
+ADD COLUMN     "missedCrawls" INTEGER NOT NULL DEFAULT 0;
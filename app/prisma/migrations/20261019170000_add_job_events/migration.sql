@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "JobEventType" AS ENUM ('CREATED', 'CLOSED', 'REACTIVATED', 'TITLE_CHANGED', 'LOCATION_CHANGED', 'EXTERNAL_ID_REWRITTEN');
+
+-- CreateTable
+CREATE TABLE "JobEvent" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "type" "JobEventType" NOT NULL,
+    "fromValue" TEXT,
+    "toValue" TEXT,
+    "crawlRunId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JobEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobEvent_jobId_createdAt_idx" ON "JobEvent"("jobId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "JobEvent_crawlRunId_idx" ON "JobEvent"("crawlRunId");
+
+-- AddForeignKey
+ALTER TABLE "JobEvent" ADD CONSTRAINT "JobEvent_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JobEvent" ADD CONSTRAINT "JobEvent_crawlRunId_fkey" FOREIGN KEY ("crawlRunId") REFERENCES "CrawlRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
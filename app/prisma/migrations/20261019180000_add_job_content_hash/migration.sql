@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "JobEventType" ADD VALUE 'DESCRIPTION_CHANGED';
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "contentHash" TEXT;
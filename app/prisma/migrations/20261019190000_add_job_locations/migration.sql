@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "JobLocation" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "city" TEXT,
+    "region" TEXT,
+    "countryCode" TEXT,
+    "isRemote" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "JobLocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "JobLocation_jobId_idx" ON "JobLocation"("jobId");
+
+-- CreateIndex
+CREATE INDEX "JobLocation_countryCode_region_idx" ON "JobLocation"("countryCode", "region");
+
+-- AddForeignKey
+ALTER TABLE "JobLocation" ADD CONSTRAINT "JobLocation_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "Job"("id") ON DELETE CASCADE ON UPDATE CASCADE;
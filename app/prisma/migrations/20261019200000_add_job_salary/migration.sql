@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "salaryMin" DOUBLE PRECISION,
+ADD COLUMN "salaryMax" DOUBLE PRECISION,
+ADD COLUMN "salaryCurrency" TEXT,
+ADD COLUMN "salaryPeriod" TEXT,
+ADD COLUMN "salaryAnnualMax" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Job_salaryAnnualMax_idx" ON "Job"("salaryAnnualMax");
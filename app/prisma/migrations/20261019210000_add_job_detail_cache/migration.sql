@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "JobDetailCache" (
+    "sourcePlatform" "SourcePlatform" NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "descriptionText" TEXT,
+    "requirementsText" TEXT,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JobDetailCache_pkey" PRIMARY KEY ("sourcePlatform","externalId","contentHash")
+);
+
+-- CreateIndex
+CREATE INDEX "JobDetailCache_fetchedAt_idx" ON "JobDetailCache"("fetchedAt");
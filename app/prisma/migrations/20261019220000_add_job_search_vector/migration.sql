@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("requirementsText", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("descriptionText", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Job_searchVector_idx" ON "Job" USING GIN ("searchVector");
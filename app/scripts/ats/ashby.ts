@@ -0,0 +1,113 @@
+import { fetchWithRetry, stripHtmlTags } from "./http";
+import type { AtsAdapter, NormalizedCompensation, NormalizedJob } from "./types";
+
+type AshbyCompensationComponent = {
+  compensationType?: string; // "Salary", "EquityPercentage", "Bonus", ...
+  interval?: string; // "1 YEAR", "1 HOUR", ...
+  currencyCode?: string | null;
+  minValue?: number | null;
+  maxValue?: number | null;
+};
+
+type AshbyJob = {
+  id: string;
+  title: string;
+  department?: string;
+  team?: string;
+  employmentType?: string; // "FullTime", "PartTime", "Intern", "Contract", "Temporary"
+  location?: string;
+  secondaryLocations?: Array<{ location?: string }>;
+  publishedAt?: string;
+  isListed?: boolean;
+  isRemote?: boolean;
+  workplaceType?: string | null; // "OnSite", "Remote", "Hybrid"
+  jobUrl?: string;
+  applyUrl?: string;
+  descriptionHtml?: string;
+  descriptionPlain?: string;
+  compensation?: {
+    compensationTierSummary?: string | null;
+    scrapeableCompensationSalarySummary?: string | null;
+    summaryComponents?: AshbyCompensationComponent[];
+  };
+};
+
+function getAshbySlug(boardUrl: string): string {
+  const url = new URL(boardUrl);
+  const parts = url.pathname.split("/").filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error(`Invalid Ashby board URL: ${boardUrl}`);
+  }
+  return parts[0];
+}
+
+async function fetchAshbyJobs(boardUrl: string): Promise<AshbyJob[]> {
+  const slug = getAshbySlug(boardUrl);
+  const apiUrl = `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(
+    slug
+  )}?includeCompensation=true`;
+  const res = await fetchWithRetry(apiUrl, { headers: { Accept: "application/json" } });
+
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${apiUrl}: ${res.status}`);
+  }
+
+  const data = (await res.json()) as { jobs?: AshbyJob[] };
+  // Unlisted postings are reachable by URL only and shouldn't appear on the board
+  return (data.jobs ?? []).filter((job) => job.isListed !== false);
+}
+
+function getAshbyCompensation(job: AshbyJob): NormalizedCompensation | null {
+  const summary =
+    job.compensation?.scrapeableCompensationSalarySummary ??
+    job.compensation?.compensationTierSummary ??
+    null;
+  const salary = job.compensation?.summaryComponents?.find(
+    (component) => component.compensationType === "Salary"
+  );
+  if (!salary && !summary) {
+    return null;
+  }
+  // Intervals look like "1 YEAR" / "1 HOUR"
+  const period = salary?.interval?.split(" ").pop()?.toUpperCase() ?? null;
+  return {
+    min: salary?.minValue ?? null,
+    max: salary?.maxValue ?? null,
+    currency: salary?.currencyCode ?? null,
+    period,
+    summary,
+  };
+}
+
+function normalizeAshbyJob(companyName: string, boardUrl: string, job: AshbyJob): NormalizedJob {
+  const locations = [
+    job.location,
+    ...(job.secondaryLocations ?? []).map((secondary) => secondary.location),
+  ].filter((value): value is string => Boolean(value));
+  const workplaceTypeHint = job.workplaceType ?? (job.isRemote ? "remote" : null);
+  const compensation = getAshbyCompensation(job);
+  const description =
+    job.descriptionPlain ?? (job.descriptionHtml ? stripHtmlTags(job.descriptionHtml) : null);
+
+  return {
+    companyName,
+    externalId: job.id,
+    title: job.title,
+    location: locations.length > 0 ? Array.from(new Set(locations)).join("; ") : null,
+    postedAt: job.publishedAt ?? null,
+    jobUrl: job.jobUrl ?? `${boardUrl.replace(/\/+$/, "")}/${job.id}`,
+    // Pay stays out of the text so a reworded band isn't a description change
+    descriptionText: description,
+    employmentTypeHint: job.employmentType ?? null,
+    workplaceTypeHint,
+    compensation,
+  };
+}
+
+export const ashbyAdapter: AtsAdapter<AshbyJob> = {
+  platform: "ASHBY",
+  label: "Ashby",
+  matchesBoardUrl: (boardUrl) => boardUrl.toLowerCase().includes("ashbyhq.com"),
+  fetchJobs: (company) => fetchAshbyJobs(company.boardUrl),
+  normalizeJob: (company, job) => normalizeAshbyJob(company.name, company.boardUrl, job),
+};
@@ -0,0 +1,56 @@
+import { fetchWithRetry } from "./http";
+import type { AtsAdapter, NormalizedJob } from "./types";
+
+type GreenhouseJob = {
+  id: number;
+  title: string;
+  location: { name: string };
+  absolute_url: string;
+  created_at: string;
+  updated_at: string;
+  content?: string;
+};
+
+function getGreenhouseSlug(boardUrl: string): string {
+  const url = new URL(boardUrl);
+  const parts = url.pathname.split("/").filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error(`Invalid Greenhouse board URL: ${boardUrl}`);
+  }
+  return parts[0];
+}
+
+async function fetchGreenhouseJobs(boardUrl: string): Promise<GreenhouseJob[]> {
+  const slug = getGreenhouseSlug(boardUrl);
+  const apiUrl = `https://boards-api.greenhouse.io/v1/boards/${slug}/jobs?content=true`;
+  const res = await fetchWithRetry(apiUrl);
+
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${apiUrl}: ${res.status}`);
+  }
+
+  const data = (await res.json()) as { jobs: GreenhouseJob[] };
+  return data.jobs ?? [];
+}
+
+function normalizeGreenhouseJob(
+  companyName: string,
+  job: GreenhouseJob
+): NormalizedJob {
+  return {
+    companyName,
+    externalId: String(job.id),
+    title: job.title,
+    location: job.location?.name ?? null,
+    postedAt: job.created_at ?? null,
+    jobUrl: job.absolute_url,
+    descriptionText: job.content ?? null,
+  };
+}
+
+export const greenhouseAdapter: AtsAdapter<GreenhouseJob> = {
+  platform: "GREENHOUSE",
+  label: "Greenhouse",
+  fetchJobs: (company) => fetchGreenhouseJobs(company.boardUrl),
+  normalizeJob: (company, job) => normalizeGreenhouseJob(company.name, job),
+};
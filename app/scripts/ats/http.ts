@@ -0,0 +1,259 @@
+import {
+  getHttpRecorderMode,
+  loadRecordedResponse,
+  saveRecordedResponse,
+} from "./recorder";
+
+// Helper to sleep for a given number of milliseconds
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Politeness rules for an ATS host. Tenants that share infrastructure (every
+// *.myworkdayjobs.com board) share one policy and one set of counters.
+type HostPolicy = {
+  key: string;
+  matches: (hostname: string) => boolean;
+  // Base spacing between consecutive requests (ms)
+  minIntervalMs: number;
+  // Requests allowed in flight at once across all crawl workers
+  maxConcurrent: number;
+};
+
+type HostState = {
+  nextRequestAt: number;
+  rateLimitHits: number;
+  inFlight: number;
+  waiting: Array<() => void>;
+};
+
+const HOST_POLICIES: HostPolicy[] = [
+  {
+    key: "workable.com",
+    matches: (hostname) => hostname.endsWith("workable.com"),
+    minIntervalMs: 1500,
+    maxConcurrent: 1,
+  },
+  {
+    key: "myworkdayjobs.com",
+    matches: (hostname) => hostname.endsWith("myworkdayjobs.com"),
+    minIntervalMs: 0,
+    maxConcurrent: 20,
+  },
+];
+
+// Any other host (Greenhouse, Lever, SmartRecruiters API, ...)
+const DEFAULT_MAX_CONCURRENT = 10;
+
+const hostStates = new Map<string, HostState>();
+
+function getHostPolicy(url: string): HostPolicy {
+  let hostname = url;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    // Not a URL - treat the value as the host key itself
+  }
+  return (
+    HOST_POLICIES.find((policy) => policy.matches(hostname)) ?? {
+      key: hostname,
+      matches: (value) => value === hostname,
+      minIntervalMs: 0,
+      maxConcurrent: DEFAULT_MAX_CONCURRENT,
+    }
+  );
+}
+
+function getHostState(key: string): HostState {
+  let state = hostStates.get(key);
+  if (!state) {
+    state = { nextRequestAt: 0, rateLimitHits: 0, inFlight: 0, waiting: [] };
+    hostStates.set(key, state);
+  }
+  return state;
+}
+
+export function getHostRateLimitHits(url: string): number {
+  return getHostState(getHostPolicy(url).key).rateLimitHits;
+}
+
+// Adaptive delay based on rate limit history: the host's base interval plus
+// 1s for each recent 429 (capped at 5s extra)
+export function getHostDelay(url: string): number {
+  const policy = getHostPolicy(url);
+  const hits = getHostState(policy.key).rateLimitHits;
+  return policy.minIntervalMs + Math.min(hits * 1000, 5000);
+}
+
+async function acquireHostSlot(policy: HostPolicy, state: HostState): Promise<void> {
+  if (state.inFlight < policy.maxConcurrent) {
+    state.inFlight += 1;
+  } else {
+    // The releasing request hands its slot over directly
+    await new Promise<void>((resolve) => state.waiting.push(resolve));
+  }
+
+  // Reserve the next send time before sleeping so concurrent callers queue up
+  // behind each other instead of all firing once the interval has passed.
+  const delay = getHostDelay(policy.key);
+  const sendAt = Math.max(Date.now(), state.nextRequestAt);
+  state.nextRequestAt = sendAt + delay;
+  if (sendAt > Date.now()) {
+    await sleep(sendAt - Date.now());
+  }
+}
+
+function releaseHostSlot(state: HostState) {
+  const next = state.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    state.inFlight -= 1;
+  }
+}
+
+function getRetryAfterMs(res: Response): number | null {
+  const header = res.headers.get("retry-after");
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+/**
+ * fetch() with per-host politeness (spacing + concurrency caps shared by all
+ * crawl workers) and retries: 429s back off 5s, 10s, 20s, 40s, 60s (or the
+ * server's Retry-After), gateway errors and network failures 1s, 2s, 4s...
+ * Any other response is returned as-is for the caller to handle. In
+ * --record / --replay mode responses are also saved to / served from disk.
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit = {},
+  maxRetries = 5,
+  debug = false
+): Promise<Response> {
+  const recorderMode = getHttpRecorderMode();
+  if (recorderMode === "replay") {
+    return loadRecordedResponse(url, options);
+  }
+  const policy = getHostPolicy(url);
+  const state = getHostState(policy.key);
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    let res: Response;
+    await acquireHostSlot(policy, state);
+    try {
+      res = await fetch(url, options);
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      const waitTime = Math.min(1000 * Math.pow(2, attempt), 30000);
+      if (debug) {
+        console.log(`  [DEBUG] ${policy.key} request failed (${lastError.message}), retrying in ${waitTime}ms (${attempt + 1}/${maxRetries})`);
+      }
+      await sleep(waitTime);
+      continue;
+    } finally {
+      releaseHostSlot(state);
+    }
+
+    if (res.ok) {
+      // Successful request - gradually reduce rate limit hit counter
+      if (state.rateLimitHits > 0) {
+        state.rateLimitHits = Math.max(0, state.rateLimitHits - 0.1);
+      }
+      return recorderMode === "record" ? saveRecordedResponse(url, options, res) : res;
+    }
+
+    if (res.status === 429) {
+      // Rate limited - increase hit counter and wait with exponential backoff
+      state.rateLimitHits++;
+      const waitTime =
+        getRetryAfterMs(res) ?? Math.min(5000 * Math.pow(2, attempt), 60000); // 5s, 10s, 20s, 40s, 60s
+      if (debug) {
+        console.log(`  [DEBUG] Rate limited by ${policy.key} (hit #${state.rateLimitHits}), waiting ${waitTime}ms before retry ${attempt + 1}/${maxRetries}`);
+      }
+      await sleep(waitTime);
+      lastError = new Error(`Rate limited (429)`);
+      continue;
+    }
+
+    if (RETRYABLE_STATUSES.has(res.status) && attempt < maxRetries - 1) {
+      const waitTime = Math.min(1000 * Math.pow(2, attempt), 30000);
+      if (debug) {
+        console.log(`  [DEBUG] ${policy.key} returned ${res.status}, retrying in ${waitTime}ms (${attempt + 1}/${maxRetries})`);
+      }
+      await sleep(waitTime);
+      continue;
+    }
+
+    // For other errors, don't retry
+    return recorderMode === "record" ? saveRecordedResponse(url, options, res) : res;
+  }
+
+  throw lastError || new Error('Max retries exceeded');
+}
+
+export function stripHtmlTags(input: string): string {
+  return input
+    .replace(/<[^>]*>/g, " ")      // Remove HTML tags
+    .replace(/&nbsp;/gi, " ")       // Replace &nbsp; with space
+    .replace(/&amp;/gi, "&")        // Decode &amp;
+    .replace(/&lt;/gi, "<")         // Decode &lt;
+    .replace(/&gt;/gi, ">")         // Decode &gt;
+    .replace(/&quot;/gi, '"')       // Decode &quot;
+    .replace(/&#39;/gi, "'")        // Decode &#39;
+    .replace(/&apos;/gi, "'")       // Decode &apos;
+    .replace(/&#x27;/gi, "'")       // Decode &#x27;
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10))) // Numeric entities
+    .replace(/\s+/g, " ")           // Collapse whitespace
+    .trim();
+}
+
+const REQUIREMENTS_HEADING =
+  /^((basic|minimum|preferred|required|desired|key) )?(qualifications|requirements|skills)|^what (you('|’)ll need|you('|’)ll bring|we('|’)re looking for)|^who you are|^about you|^you (have|bring|might be)/i;
+
+/**
+ * Pulls the qualifications / requirements section out of a description that
+ * only comes as one HTML blob (Workday, iCIMS): everything from the first
+ * requirements-style heading up to the next heading that isn't one.
+ */
+export function extractRequirementsText(html: string | null | undefined): string | null {
+  if (!html) {
+    return null;
+  }
+  const headingPattern = /<(h[1-6]|strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  let start = -1;
+  let end = html.length;
+  for (const match of html.matchAll(headingPattern)) {
+    const heading = stripHtmlTags(match[2]).replace(/:$/, "").trim();
+    if (!heading || heading.length > 60) {
+      continue;
+    }
+    const isRequirements = REQUIREMENTS_HEADING.test(heading);
+    if (start < 0) {
+      if (isRequirements) {
+        start = (match.index ?? 0) + match[0].length;
+      }
+    } else if (!isRequirements) {
+      end = match.index ?? html.length;
+      break;
+    }
+  }
+  if (start < 0) {
+    return null;
+  }
+  return stripHtmlTags(html.slice(start, end)) || null;
+}
+
+export function isRequirementsHeading(heading: string): boolean {
+  return REQUIREMENTS_HEADING.test(heading.replace(/:$/, "").trim());
+}
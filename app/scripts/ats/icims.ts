@@ -0,0 +1,245 @@
+import { extractRequirementsText, fetchWithRetry, isRequirementsHeading, stripHtmlTags } from "./http";
+import type { AtsAdapter, FetchOptions, NormalizedJob } from "./types";
+
+type IcimsJob = {
+  title: string;
+  location: string | null;
+  jobUrl: string;
+  externalId: string | null;
+  description: string | null;
+};
+
+function getIcimsSearchUrl(boardUrl: string): string {
+  try {
+    const url = new URL(boardUrl);
+    // Normalize to /jobs/search?ss=1
+    url.pathname = "/jobs/search";
+    const params = url.searchParams;
+    if (!params.get("ss")) {
+      params.set("ss", "1");
+    }
+    if (!params.get("in_iframe")) {
+      params.set("in_iframe", "1");
+    }
+    url.search = params.toString();
+    return url.toString();
+  } catch {
+    return boardUrl;
+  }
+}
+
+function parseIcimsJobs(html: string, baseUrl: string, debug = false): IcimsJob[] {
+  const jobs: IcimsJob[] = [];
+  
+  if (!html.includes("iCIMS_JobsTable")) {
+    if (debug) {
+      console.log(`  [DEBUG] No iCIMS_JobsTable found in page`);
+    }
+    return jobs;
+  }
+
+  // Updated regex: href comes BEFORE class in the HTML
+  const anchorRegex =
+    /href="([^"]+)"[^>]*class="iCIMS_Anchor"[^>]*>[\s\S]*?<h3[^>]*>([\s\S]*?)<\/h3>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = anchorRegex.exec(html)) !== null) {
+    const href = match[1];
+    const title = stripHtmlTags(match[2]);
+    
+    if (!title) continue;
+
+    const anchorPos = match.index;
+    const rowStart = html.lastIndexOf('<div class="row', anchorPos);
+    const nextRow = html.indexOf('<div class="row', anchorPos + match[0].length);
+    const row =
+      rowStart >= 0
+        ? html.substring(
+            rowStart,
+            nextRow > rowStart ? nextRow : anchorPos + match[0].length + 4000
+          )
+        : match[0];
+
+    const jobUrl = href.startsWith("http")
+      ? href
+      : new URL(href, baseUrl).toString();
+
+    // Match <span> with any attributes (e.g., <span > or <span class="...">)
+    // Try multiple location patterns:
+    // 1. "Job Locations" field in header (Applied Systems style)
+    const locMatch =
+      row.match(/field-label">Job Locations<\/span>\s*<span[^>]*>\s*([\s\S]*?)<\/span>/i) ??
+      row.match(/field-label">Location<\/span>\s*<span[^>]*>\s*([\s\S]*?)<\/span>/i);
+    
+    let location: string | null = null;
+    if (locMatch) {
+      location = stripHtmlTags(locMatch[1]);
+    } else {
+      // 2. Country/City fields in additionalFields (SAS style)
+      const countryMatch = row.match(/field-label">\s*Country[^<]*<\/span>\s*<\/dt>\s*<dd[^>]*><span[^>]*>\s*([\s\S]*?)<\/span>/i);
+      const cityMatch = row.match(/field-label">\s*City<\/span>\s*<\/dt>\s*<dd[^>]*><span[^>]*>\s*([\s\S]*?)<\/span>/i);
+      const stateMatch = row.match(/field-label">\s*State<\/span>\s*<\/dt>\s*<dd[^>]*><span[^>]*>\s*([\s\S]*?)<\/span>/i);
+      
+      const parts = [];
+      if (cityMatch) parts.push(stripHtmlTags(cityMatch[1]));
+      if (stateMatch) parts.push(stripHtmlTags(stateMatch[1]));
+      if (countryMatch) parts.push(stripHtmlTags(countryMatch[1]));
+      
+      if (parts.length > 0) {
+        location = parts.join(', ');
+      }
+    }
+
+    // Match ID field with any dd/span attributes
+    const idMatch = row.match(
+      /iCIMS_JobHeaderField">(?:ID|Requisition ID)<\/dt>\s*<dd[^>]*><span[^>]*>\s*([\s\S]*?)<\/span>/i
+    );
+    const externalId = idMatch ? stripHtmlTags(idMatch[1]) : null;
+
+    const descMatch = row.match(/<div class="col-xs-12 description">([\s\S]*?)<\/div>/i);
+    const description = descMatch ? stripHtmlTags(descMatch[1]) : null;
+
+    jobs.push({
+      title,
+      jobUrl,
+      location,
+      externalId,
+      description,
+    });
+  }
+
+  return jobs;
+}
+
+const ICIMS_HEADERS = {
+  Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.9",
+  "User-Agent":
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+};
+
+async function fetchIcimsJobs(boardUrl: string, debug = false): Promise<IcimsJob[]> {
+  const baseUrl = getIcimsSearchUrl(boardUrl);
+  const jobs: IcimsJob[] = [];
+  let page = 1;
+  const headers = ICIMS_HEADERS;
+
+  while (true) {
+    const pageUrl = baseUrl.includes("?")
+      ? `${baseUrl}&pr=${page - 1}`
+      : `${baseUrl}?pr=${page - 1}`;
+
+    const res = await fetchWithRetry(pageUrl, { headers });
+    if (!res.ok) {
+      if (debug) {
+        console.log(`  [DEBUG] ICIMS fetch failed ${res.status} for ${pageUrl}`);
+      }
+      break;
+    }
+    const html = await res.text();
+    const parsed = parseIcimsJobs(html, baseUrl, debug);
+    if (parsed.length === 0) {
+      if (debug) {
+        console.log(`  [DEBUG] ICIMS page ${page} returned 0 rows. Length=${html.length}.`);
+      }
+      break;
+    }
+    jobs.push(...parsed);
+    if (debug) {
+      console.log(`  [DEBUG] ICIMS page ${page}: ${parsed.length} jobs`);
+    }
+    page += 1;
+    if (page > 50) {
+      // safety stop
+      break;
+    }
+  }
+
+  if (debug) {
+    console.log(`  [DEBUG] ICIMS total jobs: ${jobs.length}`);
+  }
+
+  return jobs;
+}
+
+// Job pages split the posting into titled sections ("Overview", "Responsibilities",
+// "Qualifications"); the search results only carry a teaser
+function parseIcimsJobPage(html: string): Partial<NormalizedJob> {
+  const sectionPattern =
+    /<h2[^>]*class="[^"]*iCIMS_InfoField_Job[^"]*"[^>]*>([\s\S]*?)<\/h2>([\s\S]*?)(?=<h2[^>]*class="[^"]*iCIMS_InfoField_Job|<div[^>]*class="[^"]*iCIMS_(?:JobOptions|PageFooter)|$)/gi;
+  const sections = Array.from(html.matchAll(sectionPattern))
+    .map((match) => ({ heading: stripHtmlTags(match[1]), html: match[2], body: stripHtmlTags(match[2]) }))
+    .filter((section) => section.body);
+  if (sections.length === 0) {
+    return {};
+  }
+  const requirements = sections.filter((section) => isRequirementsHeading(section.heading));
+  return {
+    descriptionText: sections
+      .map((section) => (section.heading ? `${section.heading}\n${section.body}` : section.body))
+      .join("\n\n"),
+    requirementsText:
+      requirements.length > 0
+        ? requirements.map((section) => section.body).join("\n\n")
+        : extractRequirementsText(sections.map((section) => section.html).join("")),
+  };
+}
+
+async function fetchIcimsJobDetails(
+  job: NormalizedJob,
+  options: FetchOptions
+): Promise<Partial<NormalizedJob>> {
+  try {
+    const url = new URL(job.jobUrl);
+    url.searchParams.set("in_iframe", "1");
+    const res = await fetchWithRetry(url.toString(), { headers: ICIMS_HEADERS });
+    if (!res.ok) {
+      if (options.debug) {
+        console.log(`  [DEBUG] iCIMS detail ${res.status} for ${job.jobUrl}`);
+      }
+      return {};
+    }
+    return parseIcimsJobPage(await res.text());
+  } catch (error) {
+    if (options.debug) {
+      console.log(`  [DEBUG] iCIMS detail error for ${job.jobUrl}: ${error}`);
+    }
+    return {};
+  }
+}
+
+function normalizeIcimsJob(companyName: string, job: IcimsJob): NormalizedJob | null {
+  const title = job.title.trim();
+  if (!title) return null;
+  
+  // Extract external ID:  
+  // First try the ID field from the row
+  let externalId = job.externalId && job.externalId.trim() ? job.externalId.trim() : null;
+  
+  // If not found, extract from URL: /jobs/6419/title/job -> "6419"
+  if (!externalId) {
+    const urlMatch = job.jobUrl.match(/\/jobs\/(\d+)\//);
+    externalId = urlMatch ? urlMatch[1] : null;
+  }
+  
+  if (!externalId) return null;
+  
+  return {
+    companyName,
+    externalId,
+    title,
+    location: job.location,
+    postedAt: null,
+    jobUrl: job.jobUrl,
+    descriptionText: job.description,
+  };
+}
+
+export const icimsAdapter: AtsAdapter<IcimsJob> = {
+  platform: "ICIMS",
+  label: "iCIMS",
+  matchesBoardUrl: (boardUrl) => boardUrl.toLowerCase().includes("icims.com"),
+  fetchJobs: (company, options) => fetchIcimsJobs(company.boardUrl, options.debug),
+  normalizeJob: (company, job) => normalizeIcimsJob(company.name, job),
+  fetchJobDetails: (company, job, options) => fetchIcimsJobDetails(job, options),
+};
@@ -0,0 +1,53 @@
+import { ashbyAdapter } from "./ashby";
+import { greenhouseAdapter } from "./greenhouse";
+import { icimsAdapter } from "./icims";
+import { leverAdapter } from "./lever";
+import { smartRecruitersAdapter } from "./smartrecruiters";
+import { taleoAdapter } from "./taleo";
+import type { AtsAdapter, Company } from "./types";
+import { workableAdapter } from "./workable";
+import { workdayAdapter } from "./workday";
+
+export type {
+  AtsAdapter,
+  Company,
+  FetchOptions,
+  NormalizedCompensation,
+  NormalizedJob,
+  NormalizedLocation,
+} from "./types";
+
+// Registry of every ATS the crawler supports, in display order
+export const atsAdapters: AtsAdapter[] = [
+  greenhouseAdapter,
+  leverAdapter,
+  workdayAdapter,
+  icimsAdapter,
+  smartRecruitersAdapter,
+  workableAdapter,
+  taleoAdapter,
+  ashbyAdapter,
+];
+
+/**
+ * Picks the adapter for a company by its platform. CUSTOM companies fall back
+ * to URL detection (e.g. iCIMS boards imported before ICIMS existed).
+ */
+export function getAdapter(company: Pick<Company, "platform" | "boardUrl">): AtsAdapter | null {
+  const byPlatform = atsAdapters.find((adapter) => adapter.platform === company.platform);
+  if (byPlatform) {
+    return byPlatform;
+  }
+  if (company.platform === "CUSTOM") {
+    return (
+      atsAdapters.find((adapter) => adapter.matchesBoardUrl?.(company.boardUrl)) ?? null
+    );
+  }
+  return null;
+}
+
+export function getSupportedCompanies<T extends Pick<Company, "platform" | "boardUrl">>(
+  companies: T[]
+): T[] {
+  return companies.filter((company) => getAdapter(company) !== null);
+}
@@ -0,0 +1,110 @@
+import { fetchWithRetry, isRequirementsHeading, stripHtmlTags } from "./http";
+import type { AtsAdapter, NormalizedCompensation, NormalizedJob } from "./types";
+
+type LeverJob = {
+  id: string;
+  text: string;
+  hostedUrl?: string;
+  applyUrl?: string;
+  createdAt?: number;
+  description?: string;
+  descriptionPlain?: string;
+  // Sections after the opening ("Requirements", "What you'll do"), content is HTML
+  lists?: Array<{ text?: string; content?: string }>;
+  additionalPlain?: string;
+  workplaceType?: string; // "remote", "hybrid", "onsite", "unspecified"
+  salaryRange?: {
+    min?: number;
+    max?: number;
+    currency?: string;
+    interval?: string; // "per-year-salary", "per-hour-wage", ...
+  };
+  salaryDescriptionPlain?: string;
+  categories?: {
+    location?: string;
+    team?: string;
+    commitment?: string;
+  };
+};
+
+function getLeverSlug(boardUrl: string): string {
+  const url = new URL(boardUrl);
+  const parts = url.pathname.split("/").filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error(`Invalid Lever board URL: ${boardUrl}`);
+  }
+  return parts[0];
+}
+
+async function fetchLeverJobs(boardUrl: string): Promise<LeverJob[]> {
+  const slug = getLeverSlug(boardUrl);
+  const apiUrl = `https://api.lever.co/v0/postings/${slug}?mode=json`;
+  const res = await fetchWithRetry(apiUrl);
+
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${apiUrl}: ${res.status}`);
+  }
+
+  const data = (await res.json()) as LeverJob[];
+  return data ?? [];
+}
+
+function getLeverCompensation(job: LeverJob): NormalizedCompensation | null {
+  const range = job.salaryRange;
+  if (!range || (range.min === undefined && range.max === undefined)) {
+    return null;
+  }
+  return {
+    min: range.min ?? null,
+    max: range.max ?? null,
+    currency: range.currency ?? null,
+    period: range.interval?.split("-")[1]?.toUpperCase() ?? null,
+    summary: job.salaryDescriptionPlain?.trim() || null,
+  };
+}
+
+// The list endpoint returns the whole posting; `description` is only its opening
+function getLeverText(job: LeverJob): { descriptionText: string | null; requirementsText: string | null } {
+  const sections = (job.lists ?? [])
+    .map((list) => ({ heading: list.text?.trim() ?? "", body: stripHtmlTags(list.content ?? "") }))
+    .filter((section) => section.body);
+  const opening = job.descriptionPlain?.trim() || (job.description ? stripHtmlTags(job.description) : "");
+  const descriptionText = [
+    opening,
+    ...sections.map((section) => (section.heading ? `${section.heading}\n${section.body}` : section.body)),
+    job.additionalPlain?.trim() ?? "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  const requirementsText = sections
+    .filter((section) => isRequirementsHeading(section.heading))
+    .map((section) => section.body)
+    .join("\n\n");
+  return { descriptionText: descriptionText || null, requirementsText: requirementsText || null };
+}
+
+function normalizeLeverJob(companyName: string, job: LeverJob): NormalizedJob {
+  const postedAt =
+    typeof job.createdAt === "number"
+      ? new Date(job.createdAt).toISOString()
+      : null;
+  return {
+    companyName,
+    externalId: job.id,
+    title: job.text,
+    location: job.categories?.location ?? null,
+    postedAt,
+    jobUrl: job.hostedUrl ?? job.applyUrl ?? "",
+    ...getLeverText(job),
+    employmentTypeHint: job.categories?.commitment ?? null,
+    workplaceTypeHint: job.workplaceType ?? null,
+    compensation: getLeverCompensation(job),
+  };
+}
+
+export const leverAdapter: AtsAdapter<LeverJob> = {
+  platform: "LEVER",
+  label: "Lever",
+  fetchJobs: (company) => fetchLeverJobs(company.boardUrl),
+  normalizeJob: (company, job) => normalizeLeverJob(company.name, job),
+};
@@ -0,0 +1,108 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+
+// --record=<dir> saves every ATS response under <dir>/<company>/, and
+// --replay=<dir> serves them back so parsers can be checked offline.
+export type HttpRecorderMode = "record" | "replay";
+
+type RecordedResponse = {
+  method: string;
+  url: string;
+  requestBody: string | null;
+  status: number;
+  contentType: string | null;
+  body: string;
+};
+
+let recorder: { mode: HttpRecorderMode; dir: string } | null = null;
+
+// Directory of the company currently being crawled, per crawl worker
+const scopeStorage = new AsyncLocalStorage<string>();
+
+export function configureHttpRecorder(mode: HttpRecorderMode, dir: string) {
+  recorder = { mode, dir: path.resolve(dir) };
+}
+
+export function getHttpRecorderMode(): HttpRecorderMode | null {
+  return recorder?.mode ?? null;
+}
+
+// Runs `fn` with its requests filed under the given scope (e.g. a company)
+export function withHttpScope<T>(scope: string, fn: () => Promise<T>): Promise<T> {
+  return scopeStorage.run(scope, fn);
+}
+
+// Built from the company's platform, name and board URL rather than its database
+// id, so fixtures recorded against one database replay against another
+export function getCompanyScope(company: { name: string; platform: string; boardUrl: string }): string {
+  const slug = company.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  // Keeps companies whose names slug the same apart
+  const board = createHash("sha256").update(company.boardUrl).digest("hex").slice(0, 8);
+  return `${company.platform.toLowerCase()}-${slug || "company"}-${board}`;
+}
+
+function getRequestBody(options: RequestInit): string | null {
+  return typeof options.body === "string" ? options.body : null;
+}
+
+// One file per distinct request; pagination differs by URL or body so pages don't collide
+function getRecordingPath(url: string, options: RequestInit): string {
+  if (!recorder) {
+    throw new Error("HTTP recorder is not configured");
+  }
+  const method = (options.method ?? "GET").toUpperCase();
+  const key = createHash("sha256")
+    .update(`${method} ${url}\n${getRequestBody(options) ?? ""}`)
+    .digest("hex")
+    .slice(0, 24);
+  const scope = scopeStorage.getStore() ?? "_unscoped";
+  return path.join(recorder.dir, scope, `${key}.json`);
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  // Null-body statuses can't be constructed with a body
+  const body = [204, 205, 304].includes(recorded.status) ? null : recorded.body;
+  return new Response(body, {
+    status: recorded.status,
+    headers: recorded.contentType ? { "content-type": recorded.contentType } : {},
+  });
+}
+
+export async function loadRecordedResponse(url: string, options: RequestInit): Promise<Response> {
+  const filePath = getRecordingPath(url, options);
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    throw new Error(
+      `No recorded response for ${(options.method ?? "GET").toUpperCase()} ${url} (expected ${filePath})`
+    );
+  }
+  return toResponse(JSON.parse(content) as RecordedResponse);
+}
+
+// Saves the response and hands back an unread copy for the caller
+export async function saveRecordedResponse(
+  url: string,
+  options: RequestInit,
+  res: Response
+): Promise<Response> {
+  const recorded: RecordedResponse = {
+    method: (options.method ?? "GET").toUpperCase(),
+    url,
+    requestBody: getRequestBody(options),
+    status: res.status,
+    contentType: res.headers.get("content-type"),
+    body: await res.text(),
+  };
+  const filePath = getRecordingPath(url, options);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(recorded, null, 2), "utf-8");
+  return toResponse(recorded);
+}
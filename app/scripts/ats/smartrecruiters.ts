@@ -0,0 +1,253 @@
+import { fetchWithRetry, stripHtmlTags } from "./http";
+import type { AtsAdapter, FetchOptions, NormalizedCompensation, NormalizedJob } from "./types";
+
+type SmartRecruitersJob = {
+  id: string;
+  name: string;
+  location: {
+    city?: string;
+    region?: string;
+    country?: string;
+    remote?: boolean;
+    hybrid?: boolean;
+  };
+  // Only present when the company publishes pay for the posting
+  compensation?: {
+    min?: number;
+    max?: number;
+    currency?: string;
+    period?: string; // "YEARLY", "MONTHLY", "HOURLY", ...
+  };
+  // Newer postings return { id, label } instead of a plain string
+  typeOfEmployment?: string | { id?: string; label?: string };
+  company: {
+    identifier?: string;
+    name: string;
+  };
+  actions?: {
+    apply?: string;
+  };
+  postingUrl?: string;
+  applyUrl?: string;
+  jobAd?: {
+    sections?: {
+      companyDescription?: {
+        title?: string;
+        text?: string;
+      };
+      jobDescription?: {
+        title?: string;
+        text?: string;
+      };
+      qualifications?: {
+        title?: string;
+        text?: string;
+      };
+      additionalInformation?: {
+        title?: string;
+        text?: string;
+      };
+    };
+  };
+};
+
+function getSmartRecruitersSlug(boardUrl: string): string {
+  try {
+    const url = new URL(boardUrl);
+    const parts = url.pathname.split("/").filter(Boolean);
+    if (parts.length === 0) {
+      throw new Error(`Invalid SmartRecruiters board URL (no slug in path): ${boardUrl}`);
+    }
+    return parts[0];
+  } catch (error) {
+    throw new Error(`Invalid SmartRecruiters board URL: ${boardUrl}. Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function fetchSmartRecruitersJobs(boardUrl: string, debug = false): Promise<SmartRecruitersJob[]> {
+  const slug = getSmartRecruitersSlug(boardUrl);
+  const apiUrl = `https://api.smartrecruiters.com/v1/companies/${slug}/postings`;
+  const limit = 100;
+  const concurrency = 10; // Parallel batch size
+
+  // First fetch to get total count
+  const initialUrl = `${apiUrl}?limit=${limit}&offset=0`;
+  const initialRes = await fetchWithRetry(initialUrl, {
+    headers: {
+      "Accept": "application/json",
+      "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
+    },
+  });
+
+  if (!initialRes.ok) {
+    throw new Error(`Failed to fetch ${initialUrl}: ${initialRes.status}`);
+  }
+
+  const initialData = (await initialRes.json()) as { content: SmartRecruitersJob[]; totalFound: number };
+  const allJobs: SmartRecruitersJob[] = [...initialData.content];
+  const totalFound = initialData.totalFound;
+
+  if (debug) {
+    console.log(`  [DEBUG] SmartRecruiters total jobs: ${totalFound}`);
+  }
+
+  // If all jobs fetched in first request, return early
+  if (allJobs.length >= totalFound) {
+    return allJobs;
+  }
+
+  // Calculate remaining offsets to fetch
+  const offsets: number[] = [];
+  for (let offset = limit; offset < totalFound; offset += limit) {
+    offsets.push(offset);
+  }
+
+  // Fetch remaining pages in parallel batches
+  for (let i = 0; i < offsets.length; i += concurrency) {
+    const batch = offsets.slice(i, i + concurrency);
+    
+    const batchPromises = batch.map(async (offset) => {
+      const url = `${apiUrl}?limit=${limit}&offset=${offset}`;
+      const res = await fetchWithRetry(url, {
+        headers: {
+          "Accept": "application/json",
+          "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
+        },
+      });
+
+      if (!res.ok) {
+        if (debug) {
+          console.log(`  [DEBUG] SmartRecruiters fetch failed ${res.status} for offset ${offset}`);
+        }
+        return [];
+      }
+
+      const data = (await res.json()) as { content: SmartRecruitersJob[] };
+      return data.content || [];
+    });
+
+    const batchResults = await Promise.all(batchPromises);
+    const batchJobs = batchResults.flat();
+    allJobs.push(...batchJobs);
+
+    if (debug) {
+      console.log(`  [DEBUG] SmartRecruiters fetched batch: ${batchJobs.length} jobs (total: ${allJobs.length}/${totalFound})`);
+    }
+  }
+
+  // Validate we got all expected jobs to prevent false closures
+  if (allJobs.length !== totalFound) {
+    throw new Error(`SmartRecruiters data incomplete: expected ${totalFound} jobs but got ${allJobs.length}. Batch failures may have occurred.`);
+  }
+
+  return allJobs;
+}
+
+function getSmartRecruitersCompensation(job: SmartRecruitersJob): NormalizedCompensation | null {
+  const compensation = job.compensation;
+  if (!compensation || (compensation.min === undefined && compensation.max === undefined)) {
+    return null;
+  }
+  return {
+    min: compensation.min ?? null,
+    max: compensation.max ?? null,
+    currency: compensation.currency ?? null,
+    period: compensation.period ?? null,
+    summary: null,
+  };
+}
+
+function normalizeSmartRecruitersJob(
+  companyName: string,
+  job: SmartRecruitersJob
+): NormalizedJob {
+  const locationParts = [
+    job.location?.city,
+    job.location?.region,
+    job.location?.country,
+  ].filter(Boolean);
+
+  const location = locationParts.length > 0 ? locationParts.join(", ") : null;
+
+  // Use the company identifier from the job, or fall back to constructing URL
+  const companySlug = job.company?.identifier || job.company?.name || '';
+  const jobUrl = job.postingUrl || job.applyUrl || `https://jobs.smartrecruiters.com/${companySlug}/${job.id}`;
+
+  return {
+    companyName,
+    externalId: job.id,
+    title: job.name,
+    location,
+    postedAt: null,
+    jobUrl,
+    descriptionText: null,
+    employmentTypeHint:
+      typeof job.typeOfEmployment === "string"
+        ? job.typeOfEmployment
+        : job.typeOfEmployment?.label ?? job.typeOfEmployment?.id ?? null,
+    workplaceTypeHint: job.location?.hybrid
+      ? "hybrid"
+      : job.location?.remote
+      ? "remote"
+      : null,
+    compensation: getSmartRecruitersCompensation(job),
+    locations: job.location
+      ? [
+          {
+            city: job.location.city ?? null,
+            region: job.location.region ?? null,
+            // Lower-case ISO code, e.g. "us"
+            country: job.location.country ?? null,
+            isRemote: Boolean(job.location.remote),
+          },
+        ]
+      : [],
+  };
+}
+
+// The postings list omits jobAd; the single-posting endpoint has its sections
+async function fetchSmartRecruitersJobDetails(
+  boardUrl: string,
+  job: NormalizedJob,
+  options: FetchOptions
+): Promise<Partial<NormalizedJob>> {
+  const apiUrl = `https://api.smartrecruiters.com/v1/companies/${getSmartRecruitersSlug(boardUrl)}/postings/${encodeURIComponent(job.externalId)}`;
+  try {
+    const res = await fetchWithRetry(apiUrl, { headers: { Accept: "application/json" } });
+    if (!res.ok) {
+      if (options.debug) {
+        console.log(`  [DEBUG] SmartRecruiters detail ${res.status} for ${apiUrl}`);
+      }
+      return {};
+    }
+    const data = (await res.json()) as Pick<SmartRecruitersJob, "jobAd">;
+    const sections = data.jobAd?.sections;
+    const toText = (section?: { text?: string }) => (section?.text ? stripHtmlTags(section.text) : "");
+    const descriptionText = [
+      toText(sections?.jobDescription),
+      toText(sections?.qualifications),
+      toText(sections?.additionalInformation),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    return {
+      descriptionText: descriptionText || null,
+      requirementsText: toText(sections?.qualifications) || null,
+    };
+  } catch (error) {
+    if (options.debug) {
+      console.log(`  [DEBUG] SmartRecruiters detail error for ${apiUrl}: ${error}`);
+    }
+    return {};
+  }
+}
+
+export const smartRecruitersAdapter: AtsAdapter<SmartRecruitersJob> = {
+  platform: "SMARTRECRUITERS",
+  label: "SmartRecruiters",
+  fetchJobs: (company, options) =>
+    fetchSmartRecruitersJobs(company.boardUrl, options.debug),
+  normalizeJob: (company, job) => normalizeSmartRecruitersJob(company.name, job),
+  fetchJobDetails: (company, job, options) =>
+    fetchSmartRecruitersJobDetails(company.boardUrl, job, options),
+};
@@ -0,0 +1,272 @@
+import { fetchWithRetry, stripHtmlTags } from "./http";
+import type { AtsAdapter, FetchOptions, NormalizedJob } from "./types";
+
+type TaleoRequisition = {
+  jobId: string;
+  contestNo?: string;
+  // Columns configured for the career section list view, usually
+  // [title, location, posted date]. Location is often a JSON-encoded array.
+  column: string[];
+};
+
+type TaleoSearchResponse = {
+  requisitionList?: TaleoRequisition[];
+  pagingData?: {
+    currentPageNo?: number;
+    pageSize?: number;
+    totalCount?: number;
+  };
+};
+
+type TaleoJob = TaleoRequisition & {
+  origin: string;
+  section: string;
+};
+
+type TaleoBoard = {
+  origin: string;
+  section: string;
+  portalId: string;
+};
+
+const TALEO_HEADERS = {
+  Accept: "application/json, text/javascript, */*; q=0.01",
+  "Accept-Language": "en-US,en;q=0.9",
+  "User-Agent":
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+};
+
+const taleoBoardCache = new Map<string, TaleoBoard>();
+
+function getTaleoSection(boardUrl: string): { origin: string; section: string } {
+  const url = new URL(boardUrl);
+  // Board URL pattern: https://aa270.taleo.net/careersection/ex/jobsearch.ftl
+  const parts = url.pathname.split("/").filter(Boolean);
+  if (parts.length < 2 || parts[0] !== "careersection") {
+    throw new Error(`Invalid Taleo board URL (missing career section): ${boardUrl}`);
+  }
+  return { origin: url.origin, section: parts[1] };
+}
+
+// The search API is keyed by a numeric portal ID that is only exposed in the
+// career section HTML (e.g. "portal=101430233" in the search form config).
+async function discoverTaleoBoard(boardUrl: string, debug = false): Promise<TaleoBoard> {
+  const cached = taleoBoardCache.get(boardUrl);
+  if (cached) {
+    return cached;
+  }
+  const { origin, section } = getTaleoSection(boardUrl);
+  const searchPageUrl = `${origin}/careersection/${section}/jobsearch.ftl?lang=en`;
+  const res = await fetchWithRetry(searchPageUrl, {
+    headers: {
+      ...TALEO_HEADERS,
+      Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+    },
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${searchPageUrl}: ${res.status}`);
+  }
+  const html = await res.text();
+  const portalMatch =
+    html.match(/[?&]portal=(\d+)/) ??
+    html.match(/portal[=:]\s*["']?(\d+)["']?/i);
+  if (!portalMatch) {
+    throw new Error(`Taleo portal ID not found in career section HTML for ${boardUrl}`);
+  }
+  if (debug) {
+    console.log(`  [DEBUG] Taleo portal ID: ${portalMatch[1]} (section ${section})`);
+  }
+  const board = { origin, section, portalId: portalMatch[1] };
+  taleoBoardCache.set(boardUrl, board);
+  return board;
+}
+
+async function fetchTaleoPage(
+  board: TaleoBoard,
+  boardUrl: string,
+  pageNo: number
+): Promise<TaleoSearchResponse> {
+  const apiUrl = `${board.origin}/careersection/rest/jobboard/searchjobs?lang=en&portal=${board.portalId}`;
+  const res = await fetchWithRetry(apiUrl, {
+    method: "POST",
+    headers: {
+      ...TALEO_HEADERS,
+      "Content-Type": "application/json",
+      Origin: board.origin,
+      Referer: boardUrl,
+      tz: "GMT+00:00",
+    },
+    body: JSON.stringify({
+      multilineEnabled: false,
+      sortingSelection: { sortBySelectionParam: "3", ascendingSortingOrder: "false" },
+      fieldData: { fields: { KEYWORD: "", LOCATION: "" }, valid: true },
+      filterSelectionParam: { searchFilterSelections: [] },
+      pageNo,
+    }),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${apiUrl} (page ${pageNo}): ${res.status}`);
+  }
+  return (await res.json()) as TaleoSearchResponse;
+}
+
+async function fetchTaleoJobs(boardUrl: string, debug = false): Promise<TaleoJob[]> {
+  const board = await discoverTaleoBoard(boardUrl, debug);
+  const jobs: TaleoJob[] = [];
+  let totalCount = Infinity;
+
+  for (let pageNo = 1; jobs.length < totalCount; pageNo++) {
+    const data = await fetchTaleoPage(board, boardUrl, pageNo);
+    const requisitions = data.requisitionList ?? [];
+    totalCount = data.pagingData?.totalCount ?? requisitions.length;
+    if (requisitions.length === 0) {
+      break;
+    }
+    jobs.push(
+      ...requisitions.map((job) => ({ ...job, origin: board.origin, section: board.section }))
+    );
+    if (debug) {
+      console.log(`  [DEBUG] Taleo page ${pageNo}: ${requisitions.length} jobs (${jobs.length}/${totalCount})`);
+    }
+    if (pageNo >= 100) {
+      // safety stop
+      break;
+    }
+  }
+
+  // Validate we got all expected jobs to prevent false closures
+  if (Number.isFinite(totalCount) && jobs.length < totalCount) {
+    throw new Error(`Taleo data incomplete: expected ${totalCount} jobs but got ${jobs.length}.`);
+  }
+
+  return jobs;
+}
+
+function parseTaleoLocation(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (trimmed.startsWith("[")) {
+    try {
+      const locations = JSON.parse(trimmed) as string[];
+      return locations.filter(Boolean).join("; ") || null;
+    } catch {
+      return trimmed;
+    }
+  }
+  return trimmed;
+}
+
+function parseTaleoDate(value: string): string | null {
+  // Dates come back like "Jan 5, 2026" or "05/01/2026" depending on locale
+  if (!/\d{4}/.test(value)) {
+    return null;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+function buildTaleoJobUrl(job: TaleoJob): string {
+  return `${job.origin}/careersection/${job.section}/jobdetail.ftl?job=${encodeURIComponent(
+    job.contestNo || job.jobId
+  )}&lang=en`;
+}
+
+function normalizeTaleoJob(companyName: string, job: TaleoJob): NormalizedJob | null {
+  const [rawTitle, ...rest] = job.column ?? [];
+  const title = rawTitle ? stripHtmlTags(rawTitle) : "";
+  if (!title || !job.jobId) {
+    return null;
+  }
+  let postedAt: string | null = null;
+  let location: string | null = null;
+  for (const value of rest) {
+    if (!value) continue;
+    const date: string | null = parseTaleoDate(value);
+    if (date) {
+      postedAt = postedAt ?? date;
+    } else if (!location) {
+      location = parseTaleoLocation(value);
+    }
+  }
+  return {
+    companyName,
+    externalId: job.jobId,
+    title,
+    location,
+    postedAt,
+    jobUrl: buildTaleoJobUrl(job),
+    // NOTE: Taleo list API doesn't include descriptions; fetched per job on first sight
+    descriptionText: null,
+  };
+}
+
+function extractTaleoDescription(html: string): string | null {
+  // Some career sections embed schema.org JobPosting data
+  const ldJsonMatch = html.match(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/i);
+  if (ldJsonMatch) {
+    try {
+      const data = JSON.parse(ldJsonMatch[1]) as { description?: string };
+      if (data.description) {
+        return stripHtmlTags(data.description);
+      }
+    } catch {
+      // Fall through to the history payload
+    }
+  }
+
+  // Otherwise the rendered fields travel in the "initialHistory" hidden input,
+  // URL-encoded and separated by "!|!". The description is the longest field.
+  const historyMatch = html.match(/name="initialHistory"[^>]*value="([^"]*)"/i);
+  if (!historyMatch) {
+    return null;
+  }
+  let decoded = historyMatch[1];
+  try {
+    decoded = decodeURIComponent(decoded);
+  } catch {
+    // Keep the raw value if it isn't valid URI encoding
+  }
+  const longest = decoded
+    .split("!|!")
+    .map((field) => stripHtmlTags(field.replace(/!\*!/g, " ")))
+    .sort((a, b) => b.length - a.length)[0];
+  return longest && longest.length > 80 ? longest : null;
+}
+
+async function fetchTaleoJobDetails(
+  job: NormalizedJob,
+  options: FetchOptions
+): Promise<Partial<NormalizedJob>> {
+  try {
+    const res = await fetchWithRetry(job.jobUrl, {
+      headers: {
+        ...TALEO_HEADERS,
+        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      },
+    });
+    if (!res.ok) {
+      if (options.debug) {
+        console.log(`  [DEBUG] Taleo detail ${res.status} for ${job.jobUrl}`);
+      }
+      return {};
+    }
+    const descriptionText = extractTaleoDescription(await res.text());
+    return descriptionText ? { descriptionText } : {};
+  } catch (error) {
+    if (options.debug) {
+      console.log(`  [DEBUG] Taleo detail error for ${job.jobUrl}: ${error}`);
+    }
+    return {};
+  }
+}
+
+export const taleoAdapter: AtsAdapter<TaleoJob> = {
+  platform: "TALEO",
+  label: "Taleo",
+  matchesBoardUrl: (boardUrl) => boardUrl.toLowerCase().includes("taleo.net"),
+  fetchJobs: (company, options) => fetchTaleoJobs(company.boardUrl, options.debug),
+  normalizeJob: (company, job) => normalizeTaleoJob(company.name, job),
+  fetchJobDetails: (company, job, options) => fetchTaleoJobDetails(job, options),
+};
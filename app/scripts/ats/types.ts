@@ -0,0 +1,94 @@
+import type { SourcePlatform } from "@prisma/client";
+
+export type Company = {
+  id: string;
+  name: string;
+  platform: SourcePlatform;
+  boardUrl: string;
+  firstCrawledAt: Date | null;
+  lastCrawledAt: Date | null;
+};
+
+export type NormalizedCompensation = {
+  min: number | null;
+  max: number | null;
+  currency: string | null;
+  // "YEAR", "MONTH", "HOUR", ...
+  period: string | null;
+  // Human readable range as shown by the ATS, e.g. "$120K – $150K"
+  summary: string | null;
+};
+
+// One place from the ATS's structured location fields, as returned (country may
+// be a name or a code); scripts/lib/job-locations.ts cleans it up
+export type NormalizedLocation = {
+  city?: string | null;
+  region?: string | null;
+  country?: string | null;
+  isRemote?: boolean;
+};
+
+export type NormalizedJob = {
+  companyName: string;
+  externalId: string;
+  title: string;
+  location: string | null;
+  postedAt: string | null;
+  jobUrl: string;
+  descriptionText?: string | null;
+  // Qualifications / requirements section, when the ATS separates it out
+  requirementsText?: string | null;
+  // Raw employment type from the ATS, fed to the employment type classifier
+  employmentTypeHint?: string | null;
+  // Raw workplace type from the ATS ("remote", "hybrid", "onsite"), fed to detectLocationType
+  workplaceTypeHint?: string | null;
+  // Structured locations when the ATS provides them; otherwise `location` is parsed
+  locations?: NormalizedLocation[];
+  // Structured pay range when the ATS publishes one
+  compensation?: NormalizedCompensation | null;
+};
+
+export type FetchOptions = {
+  debug: boolean;
+};
+
+/**
+ * Contract every ATS integration implements. The crawler only talks to
+ * adapters through this interface, so supporting a new ATS means adding a
+ * module under scripts/ats/ and registering it in scripts/ats/index.ts.
+ */
+export type AtsAdapter<TRaw = unknown> = {
+  platform: SourcePlatform;
+  // Human readable name used in crawl output
+  label: string;
+  // Lets companies imported as CUSTOM be routed to this adapter by URL
+  matchesBoardUrl?(boardUrl: string): boolean;
+  fetchJobs(company: Company, options: FetchOptions): Promise<TRaw[]>;
+  normalizeJob(company: Company, job: TRaw): NormalizedJob | null;
+  // All IDs a board item can be matched by (defaults to the normalized externalId)
+  getBoardIds?(company: Company, job: TRaw): string[];
+  // Reduces an externalId or job URL to the platform's stable requisition ID
+  getCanonicalId?(value?: string | null): string | null;
+  // Fills in fields the listing lacks (description, requirements) for newly
+  // seen jobs; should resolve to {} rather than throw when the page is gone
+  fetchJobDetails?(
+    company: Company,
+    job: NormalizedJob,
+    options: FetchOptions
+  ): Promise<Partial<NormalizedJob>>;
+  // Checks whether a job that dropped out of the listing is still open
+  verifyById?(company: Company, id: string, options: FetchOptions): Promise<boolean>;
+  // Match listed jobs by canonical ID as well as externalId (rewriting stale
+  // externalIds), and check unmatched jobs with verifyById before they count as
+  // missing; missing jobs still go through the max-drop and miss-count guards
+  closeBeforeReactivate?: boolean;
+  // Cap on companies of this platform crawled at once (e.g. Workday tenants all
+  // live on myworkdayjobs.com); unlimited within the worker pool when unset
+  maxConcurrentCompanies?: number;
+  // Detail pages fetched at once per company (default 4)
+  maxConcurrentDetails?: number;
+  // Politeness delay (ms) to wait after crawling a company on this platform
+  getCompanyDelay?(): number;
+  // Extra cooldown (ms) after a failed company, e.g. when rate limited
+  getErrorCooldown?(message: string): number;
+};
@@ -0,0 +1,239 @@
+import { fetchWithRetry, getHostDelay, getHostRateLimitHits, stripHtmlTags } from "./http";
+import type { AtsAdapter, FetchOptions, NormalizedJob } from "./types";
+
+type WorkableJob = {
+  id: number;
+  shortcode: string;
+  title: string;
+  remote?: boolean;
+  location?: {
+    country?: string;
+    countryCode?: string;
+    city?: string;
+    region?: string;
+  };
+  locations?: Array<{
+    country?: string;
+    countryCode?: string;
+    city?: string;
+    region?: string;
+  }>;
+  state?: string;
+  published?: string;
+  type?: string; // "full", "part", "intern", etc.
+  department?: string[];
+  workplace?: string; // "remote", "hybrid", "on_site"
+};
+
+const WORKABLE_API_ORIGIN = "https://apply.workable.com";
+
+function getWorkableSlug(boardUrl: string): string {
+  try {
+    const url = new URL(boardUrl);
+    const parts = url.pathname.split("/").filter(Boolean);
+    if (parts.length === 0) {
+      throw new Error(`Invalid Workable board URL (no slug in path): ${boardUrl}`);
+    }
+    return parts[0];
+  } catch (error) {
+    throw new Error(`Invalid Workable board URL: ${boardUrl}. Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function fetchWorkableJobs(boardUrl: string, debug = false): Promise<WorkableJob[]> {
+  const slug = getWorkableSlug(boardUrl);
+  const apiUrl = `${WORKABLE_API_ORIGIN}/api/v3/accounts/${slug}/jobs`;
+
+  const headers = {
+    Accept: "application/json",
+    "Accept-Language": "en-US,en;q=0.9",
+    "Content-Type": "application/json",
+    "User-Agent":
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+    Origin: WORKABLE_API_ORIGIN,
+    Referer: boardUrl,
+  };
+
+  if (debug) {
+    console.log(`  [DEBUG] Workable API URL: ${apiUrl}`);
+  }
+
+  // First request to get total count
+  const initialBody = JSON.stringify({
+    query: "",
+    location: [],
+    department: [],
+    worktype: [],
+    remote: [],
+  });
+
+  const initialRes = await fetchWithRetry(apiUrl, {
+    method: "POST",
+    headers,
+    body: initialBody,
+  }, 3, debug);
+
+  if (!initialRes.ok) {
+    if (debug) {
+      const errorText = await initialRes.text();
+      console.log(`  [DEBUG] Workable error ${initialRes.status}: ${errorText.slice(0, 200)}`);
+    }
+    throw new Error(`Failed to fetch ${apiUrl}: ${initialRes.status}`);
+  }
+
+  const initialData = (await initialRes.json()) as { total?: number; results?: WorkableJob[]; nextPage?: string };
+  const total = initialData.total ?? 0;
+  const allJobs: WorkableJob[] = [...(initialData.results ?? [])];
+
+  if (debug) {
+    console.log(`  [DEBUG] Workable total jobs: ${total}`);
+  }
+
+  // If we got all jobs in the first request, return early
+  if (allJobs.length >= total) {
+    return allJobs;
+  }
+
+  // Paginate to get remaining jobs using the "token" field
+  // Workable uses cursor-based pagination with a token
+  let nextToken: string | undefined = initialData.nextPage;
+
+  while (allJobs.length < total && nextToken) {
+    const pageBody = JSON.stringify({
+      query: "",
+      location: [],
+      department: [],
+      worktype: [],
+      remote: [],
+      token: nextToken,
+    });
+
+    const pageRes = await fetchWithRetry(apiUrl, {
+      method: "POST",
+      headers,
+      body: pageBody,
+    }, 3, debug);
+
+    if (!pageRes.ok) {
+      if (debug) {
+        console.log(`  [DEBUG] Workable pagination error ${pageRes.status}`);
+      }
+      break;
+    }
+
+    const pageData = (await pageRes.json()) as { results?: WorkableJob[]; nextPage?: string };
+    const pageJobs = pageData.results ?? [];
+
+    if (pageJobs.length === 0) {
+      break;
+    }
+
+    allJobs.push(...pageJobs);
+    nextToken = pageData.nextPage;
+
+    if (debug) {
+      console.log(`  [DEBUG] Workable fetched ${allJobs.length}/${total} jobs...`);
+    }
+  }
+
+  if (debug) {
+    console.log(`  [DEBUG] Workable total jobs fetched: ${allJobs.length}`);
+  }
+
+  return allJobs;
+}
+
+function normalizeWorkableJob(
+  companyName: string,
+  companySlug: string,
+  job: WorkableJob
+): NormalizedJob {
+  // Build location from the primary location object
+  const locationParts = [
+    job.location?.city,
+    job.location?.region,
+    job.location?.country,
+  ].filter(Boolean);
+
+  // Add remote indicator if workplace is remote
+  let location = locationParts.length > 0 ? locationParts.join(", ") : null;
+  if (job.workplace === "remote" || job.remote) {
+    location = location ? `${location} (Remote)` : "Remote";
+  } else if (job.workplace === "hybrid") {
+    location = location ? `${location} (Hybrid)` : "Hybrid";
+  }
+
+  // Construct job URL from shortcode
+  const jobUrl = `https://apply.workable.com/${companySlug}/j/${job.shortcode}/`;
+
+  return {
+    companyName,
+    externalId: job.shortcode,
+    title: job.title,
+    location,
+    postedAt: job.published ?? null,
+    jobUrl,
+    // The list API has no descriptions; fetchWorkableJobDetails fills them in
+    descriptionText: null,
+    employmentTypeHint: job.type ?? null,
+    workplaceTypeHint: job.workplace ?? (job.remote ? "remote" : null),
+    locations: (job.locations && job.locations.length > 0 ? job.locations : job.location ? [job.location] : []).map(
+      (place) => ({
+        city: place.city ?? null,
+        region: place.region ?? null,
+        country: place.countryCode ?? place.country ?? null,
+        isRemote: job.workplace === "remote" || Boolean(job.remote),
+      })
+    ),
+  };
+}
+
+async function fetchWorkableJobDetails(
+  boardUrl: string,
+  job: NormalizedJob,
+  options: FetchOptions
+): Promise<Partial<NormalizedJob>> {
+  const apiUrl = `${WORKABLE_API_ORIGIN}/api/v2/accounts/${getWorkableSlug(boardUrl)}/jobs/${encodeURIComponent(job.externalId)}`;
+  try {
+    const res = await fetchWithRetry(apiUrl, { headers: { Accept: "application/json" } });
+    if (!res.ok) {
+      if (options.debug) {
+        console.log(`  [DEBUG] Workable detail ${res.status} for ${apiUrl}`);
+      }
+      return {};
+    }
+    const data = (await res.json()) as { description?: string; requirements?: string; benefits?: string };
+    const requirementsText = data.requirements ? stripHtmlTags(data.requirements) : "";
+    const descriptionText = [data.description, data.requirements, data.benefits]
+      .map((html) => (html ? stripHtmlTags(html) : ""))
+      .filter(Boolean)
+      .join("\n\n");
+    return {
+      descriptionText: descriptionText || null,
+      requirementsText: requirementsText || null,
+    };
+  } catch (error) {
+    if (options.debug) {
+      console.log(`  [DEBUG] Workable detail error for ${apiUrl}: ${error}`);
+    }
+    return {};
+  }
+}
+
+export const workableAdapter: AtsAdapter<WorkableJob> = {
+  platform: "WORKABLE",
+  label: "Workable",
+  fetchJobs: (company, options) => fetchWorkableJobs(company.boardUrl, options.debug),
+  normalizeJob: (company, job) =>
+    normalizeWorkableJob(company.name, getWorkableSlug(company.boardUrl), job),
+  fetchJobDetails: (company, job, options) => fetchWorkableJobDetails(company.boardUrl, job, options),
+  // Detail requests share the one-at-a-time apply.workable.com budget
+  maxConcurrentDetails: 1,
+  // All boards share the rate-limited apply.workable.com API, so crawl one at a time
+  maxConcurrentCompanies: 1,
+  // Add adaptive delay between Workable companies to avoid rate limiting
+  getCompanyDelay: () => getHostDelay(WORKABLE_API_ORIGIN),
+  // If we hit a rate limit, add extra cooldown before next company
+  getErrorCooldown: (message) =>
+    message.includes("429") ? 10000 + getHostRateLimitHits(WORKABLE_API_ORIGIN) * 2000 : 0, // 10s base + 2s per hit
+};
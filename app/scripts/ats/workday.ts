@@ -0,0 +1,461 @@
+import { extractRequirementsText, fetchWithRetry, stripHtmlTags } from "./http";
+import type { AtsAdapter, FetchOptions, NormalizedJob } from "./types";
+
+type WorkdayJob = {
+  jobId?: string;
+  title?: string;
+  externalPath?: string;
+  locationsText?: string;
+  postedOn?: string;
+  postedOnDate?: string;
+  bulletFields?: Array<{ label?: string; value?: string }>;
+  jobReqId?: string;
+};
+
+type WorkdayParams = {
+  origin: string;
+  tenant: string;
+  site: string;
+  locale?: string;
+};
+
+const workdaySiteCache = new Map<string, WorkdayParams>();
+
+async function discoverWorkdaySite(boardUrl: string): Promise<WorkdayParams> {
+  const cached = workdaySiteCache.get(boardUrl);
+  if (cached) {
+    return cached;
+  }
+  const url = new URL(boardUrl);
+  const hostParts = url.hostname.split(".").filter(Boolean);
+  const tenant = hostParts.length > 0 ? hostParts[0] : "";
+  if (!tenant) {
+    throw new Error(`Invalid Workday board URL (missing tenant): ${boardUrl}`);
+  }
+
+  const res = await fetchWithRetry(boardUrl, {
+    headers: {
+      Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+      "Accept-Language": "en-US,en;q=0.9",
+      "Cache-Control": "no-cache",
+      Pragma: "no-cache",
+      "User-Agent":
+        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+    },
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${boardUrl}: ${res.status}`);
+  }
+  const html = await res.text();
+
+  // Extract site from job links (the canonical source)
+  // Pattern: /{locale}/{site}/job/{location}/{title}_{id}
+  // or: /{locale}/{site}/details/{title}_{id}
+  const jobLinkPatterns = [
+    /\/([a-z]{2}[-_][A-Z]{2})\/([^/]+)\/job\//g,
+    /\/([a-z]{2}[-_][A-Z]{2})\/([^/]+)\/details\//g,
+    /href=["']\/([a-z]{2}[-_][A-Z]{2})\/([^/]+)\/job\//g,
+    /href=["']\/([a-z]{2}[-_][A-Z]{2})\/([^/]+)\/details\//g,
+  ];
+
+  let locale: string | undefined;
+  let site: string | undefined;
+
+  // Try to extract from job links (most reliable)
+  for (const pattern of jobLinkPatterns) {
+    const matches = Array.from(html.matchAll(pattern));
+    if (matches.length > 0) {
+      const match = matches[0];
+      locale = match[1].replace("_", "-");
+      site = match[2];
+      break;
+    }
+  }
+
+  // Fallback: try JSON-embedded site IDs (common in Workday HTML)
+  if (!site) {
+    const siteIdMatch =
+      html.match(/siteId:\s*"([^"]+)"/) ??
+      html.match(/"siteId"\s*:\s*"([^"]+)"/) ??
+      html.match(/"careerSiteId"\s*:\s*"([^"]+)"/);
+    if (siteIdMatch) {
+      site = siteIdMatch[1];
+    }
+  }
+
+  if (!site) {
+    throw new Error(`Workday site slug not found in board HTML for ${boardUrl}`);
+  }
+
+  // Default to en-US if no locale found
+  if (!locale) {
+    locale = "en-US";
+  }
+
+  const params = { origin: url.origin, tenant, site, locale };
+  workdaySiteCache.set(boardUrl, params);
+  return params;
+}
+
+function buildWorkdayJobUrl(boardUrl: string, externalPath?: string): string {
+  if (!externalPath) {
+    return boardUrl;
+  }
+  if (externalPath.startsWith("http")) {
+    return externalPath;
+  }
+  const normalizedPath = externalPath.startsWith("/")
+    ? externalPath
+    : `/${externalPath}`;
+  const url = new URL(boardUrl);
+  const pathParts = url.pathname.split("/").filter(Boolean);
+  const basePath = `/${pathParts.join("/")}`.replace(/\/+$/, "");
+  const basePathLower = basePath.toLowerCase();
+  const locale =
+    pathParts.length > 0 && /^[a-z]{2}-[A-Z]{2}$/.test(pathParts[0])
+      ? pathParts[0]
+      : "";
+  const siteSegment =
+    locale && pathParts.length > 1 ? pathParts[1] : pathParts[0] ?? "";
+  const siteLower = siteSegment.toLowerCase();
+  const pathLower = normalizedPath.toLowerCase();
+  const hasSite =
+    siteLower &&
+    (pathLower === `/${siteLower}` ||
+      pathLower.startsWith(`/${siteLower}/`));
+  const hasLocale = /^\/[a-z]{2}-[A-Z]{2}\//.test(normalizedPath);
+
+  if (
+    hasSite ||
+    hasLocale ||
+    (basePathLower && pathLower.startsWith(basePathLower))
+  ) {
+    return `${url.origin}${normalizedPath}`;
+  }
+  if (basePath) {
+    return `${url.origin}${basePath}${normalizedPath}`;
+  }
+  if (siteSegment) {
+    return `${url.origin}/${siteSegment}${normalizedPath}`;
+  }
+  return `${url.origin}${normalizedPath}`;
+}
+
+function getWorkdayCanonicalId(value?: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  const underscored = value.match(/R\d{2}_\d{4,}/g);
+  if (underscored && underscored.length > 0) {
+    return underscored[underscored.length - 1];
+  }
+  const plain = value.match(/R\d{4,}/g);
+  if (plain && plain.length > 0) {
+    return plain[plain.length - 1];
+  }
+  return null;
+}
+
+function getWorkdayExternalId(job: WorkdayJob): string | null {
+  if (job.jobReqId) {
+    return job.jobReqId;
+  }
+  if (!job.externalPath) {
+    return null;
+  }
+  const canonical = getWorkdayCanonicalId(job.externalPath);
+  if (canonical) {
+    return canonical;
+  }
+  return job.externalPath;
+}
+
+function getWorkdayLocation(job: WorkdayJob): string | null {
+  if (job.locationsText) {
+    return job.locationsText;
+  }
+  const locationField = job.bulletFields?.find((field) => {
+    const label = field.label?.toLowerCase() ?? "";
+    return label === "location" || label === "locations";
+  });
+  return locationField?.value ?? null;
+}
+
+function getWorkdayPostedAt(job: WorkdayJob): string | null {
+  if (job.postedOnDate) {
+    const parsed = new Date(job.postedOnDate);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed.toISOString();
+    }
+  }
+  if (job.postedOn) {
+    const parsed = new Date(job.postedOn);
+    if (!Number.isNaN(parsed.getTime())) {
+      return parsed.toISOString();
+    }
+  }
+  return null;
+}
+
+async function fetchWorkdayJobs(boardUrl: string, debug = false): Promise<WorkdayJob[]> {
+  const { origin, tenant, site } = await discoverWorkdaySite(boardUrl);
+  
+  if (debug) {
+    console.log(`  [DEBUG] Discovered: tenant=${tenant}, site=${site}`);
+  }
+
+  const apiUrl = `${origin}/wday/cxs/${tenant}/${site}/jobs`;
+  
+  if (debug) {
+    console.log(`  [DEBUG] API URL: ${apiUrl}`);
+  }
+
+  const headers = {
+    'accept': 'application/json',
+    'accept-language': 'en-US',
+    'content-type': 'application/json',
+    'origin': origin,
+    'referer': boardUrl,
+    'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36',
+  };
+
+  const limit = 20; // Workday API hard limit
+  const concurrency = 10; // Optimal for production (faster than 15 with DB load)
+
+  // First, get total count
+  const initialResponse = await fetchWithRetry(apiUrl, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ appliedFacets: {}, limit, offset: 0, searchText: "" }),
+  });
+
+  if (!initialResponse.ok) {
+    if (debug) {
+      const errorText = await initialResponse.text();
+      console.log(`  [DEBUG] Error ${initialResponse.status}: ${errorText.substring(0, 200)}`);
+    }
+    return [];
+  }
+
+  const initialData = await initialResponse.json();
+  const total = initialData.total || 0;
+  
+  if (debug) {
+    console.log(`  [DEBUG] Total jobs: ${total}`);
+  }
+
+  if (total === 0) {
+    return [];
+  }
+
+  // Calculate all offsets needed
+  const offsets: number[] = [];
+  for (let offset = 0; offset < total; offset += limit) {
+    offsets.push(offset);
+  }
+
+  if (debug) {
+    console.log(`  [DEBUG] Requests needed: ${offsets.length}, concurrency: ${concurrency}`);
+  }
+
+  // Fetch in parallel batches
+  const allJobs: WorkdayJob[] = [];
+  
+  for (let i = 0; i < offsets.length; i += concurrency) {
+    const batch = offsets.slice(i, i + concurrency);
+    
+    const batchPromises = batch.map(async (offset) => {
+      try {
+        const response = await fetchWithRetry(apiUrl, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ appliedFacets: {}, limit, offset, searchText: "" }),
+        });
+
+        if (!response.ok) {
+          return [];
+        }
+
+        const data = await response.json();
+        return data.jobPostings || [];
+      } catch (error) {
+        if (debug) {
+          console.log(`  [DEBUG] Fetch error at offset ${offset}: ${error}`);
+        }
+        return [];
+      }
+    });
+
+    const batchResults = await Promise.all(batchPromises);
+    const batchJobs = batchResults.flat();
+    allJobs.push(...batchJobs);
+
+    if (debug && i + concurrency < offsets.length) {
+      console.log(`  [DEBUG] Fetched ${allJobs.length}/${total} jobs...`);
+    }
+  }
+
+  if (debug) {
+    console.log(`  [DEBUG] Total jobs fetched: ${allJobs.length}`);
+  }
+
+  return allJobs;
+}
+
+async function workdaySearchById(
+  boardUrl: string,
+  id: string,
+  debug = false
+): Promise<boolean> {
+  const { origin, tenant, site } = await discoverWorkdaySite(boardUrl);
+  const apiUrl = `${origin}/wday/cxs/${tenant}/${site}/jobs`;
+  const headers = {
+    accept: "application/json",
+    "accept-language": "en-US",
+    "content-type": "application/json",
+    origin,
+    referer: boardUrl,
+    "user-agent":
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36",
+  };
+  const payload = {
+    appliedFacets: {},
+    limit: 5,
+    offset: 0,
+    searchText: id,
+  };
+
+  try {
+    const response = await fetchWithRetry(apiUrl, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      if (debug) {
+        const errorText = await response.text();
+        console.log(
+          `  [DEBUG] Workday search ${response.status} for ${id}: ${errorText.substring(0, 120)}`
+        );
+      }
+      return false;
+    }
+    const data = await response.json();
+    const jobPostings = data.jobPostings || [];
+    return jobPostings.some((job: WorkdayJob) => {
+      const externalId = getWorkdayExternalId(job);
+      return (
+        (externalId && externalId === id) ||
+        (job.externalPath && job.externalPath.includes(id))
+      );
+    });
+  } catch (error) {
+    if (debug) {
+      console.log(`  [DEBUG] Workday search error for ${id}: ${error}`);
+    }
+    return false;
+  }
+}
+
+function normalizeWorkdayJob(
+  companyName: string,
+  boardUrl: string,
+  job: WorkdayJob
+): NormalizedJob | null {
+  const externalId = getWorkdayExternalId(job) ?? "";
+  if (!externalId) {
+    return null;
+  }
+  const title = job.title?.trim() ?? "";
+  if (!title) {
+    return null;
+  }
+  return {
+    companyName,
+    externalId,
+    title,
+    location: getWorkdayLocation(job),
+    postedAt: getWorkdayPostedAt(job),
+    jobUrl: buildWorkdayJobUrl(boardUrl, job.externalPath),
+    // The list API has no descriptions; fetchWorkdayJobDetails fills them in
+    descriptionText: null,
+  };
+}
+
+// Job pages live at /{locale}/{site}/job/...; the same path under
+// /wday/cxs/{tenant}/{site} returns the posting as JSON
+async function fetchWorkdayJobDetails(
+  boardUrl: string,
+  job: NormalizedJob,
+  options: FetchOptions
+): Promise<Partial<NormalizedJob>> {
+  try {
+    const { origin, tenant, site } = await discoverWorkdaySite(boardUrl);
+    const jobPath = new URL(job.jobUrl).pathname;
+    const pathStart = jobPath.search(/\/(job|details)\//);
+    if (pathStart < 0) {
+      return {};
+    }
+    const apiUrl = `${origin}/wday/cxs/${tenant}/${site}${jobPath.slice(pathStart)}`;
+    const res = await fetchWithRetry(apiUrl, {
+      headers: { accept: "application/json", "accept-language": "en-US", referer: boardUrl },
+    });
+    if (!res.ok) {
+      if (options.debug) {
+        console.log(`  [DEBUG] Workday detail ${res.status} for ${apiUrl}`);
+      }
+      return {};
+    }
+    const data = (await res.json()) as { jobPostingInfo?: { jobDescription?: string } };
+    const html = data.jobPostingInfo?.jobDescription;
+    if (!html) {
+      return {};
+    }
+    return {
+      descriptionText: stripHtmlTags(html) || null,
+      requirementsText: extractRequirementsText(html),
+    };
+  } catch (error) {
+    if (options.debug) {
+      console.log(`  [DEBUG] Workday detail error for ${job.jobUrl}: ${error}`);
+    }
+    return {};
+  }
+}
+
+// Every ID a listing can be matched by: requisition ID, external path and
+// the canonical ID embedded in the job URL.
+function getWorkdayBoardIds(boardUrl: string, job: WorkdayJob): string[] {
+  const ids = new Set<string>();
+  const externalId = getWorkdayExternalId(job);
+  if (externalId) {
+    ids.add(externalId);
+  }
+  if (job.externalPath) {
+    ids.add(job.externalPath);
+  }
+  const jobUrl = buildWorkdayJobUrl(boardUrl, job.externalPath);
+  const canonicalFromUrl = getWorkdayCanonicalId(jobUrl);
+  if (canonicalFromUrl) {
+    ids.add(canonicalFromUrl);
+  }
+  return Array.from(ids);
+}
+
+export const workdayAdapter: AtsAdapter<WorkdayJob> = {
+  platform: "WORKDAY",
+  label: "Workday",
+  fetchJobs: (company, options) =>
+    fetchWorkdayJobs(company.boardUrl, options.debug),
+  normalizeJob: (company, job) =>
+    normalizeWorkdayJob(company.name, company.boardUrl, job),
+  getBoardIds: (company, job) => getWorkdayBoardIds(company.boardUrl, job),
+  getCanonicalId: getWorkdayCanonicalId,
+  verifyById: (company, id, options) =>
+    workdaySearchById(company.boardUrl, id, options.debug),
+  fetchJobDetails: (company, job, options) =>
+    fetchWorkdayJobDetails(company.boardUrl, job, options),
+  closeBeforeReactivate: true,
+  // Each tenant already fetches 10 pages in parallel
+  maxConcurrentCompanies: 3,
+};
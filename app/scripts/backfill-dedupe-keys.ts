@@ -0,0 +1,83 @@
+import { prisma } from "../src/lib/prisma";
+import { buildDedupeKey, reassignClosedDedupeOwners } from "./lib/dedupe";
+
+const BATCH_SIZE = 1000;
+
+async function main() {
+  // Jobs that neither own a dedupe key nor are linked to one yet. Rows are
+  // visited oldest id first, so the first posting of a group stays visible.
+  const where = { dedupeKey: null, duplicateOfId: null };
+  const totalToScan = await prisma.job.count({ where });
+  console.log(`Assigning dedupe keys to ${totalToScan} jobs...`);
+
+  let scanned = 0;
+  let keyed = 0;
+  let linked = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const jobs = await prisma.job.findMany({
+      where: cursor ? { ...where, id: { gt: cursor } } : where,
+      select: {
+        id: true,
+        title: true,
+        location: true,
+        company: { select: { name: true } },
+      },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (jobs.length === 0) {
+      break;
+    }
+    cursor = jobs[jobs.length - 1].id;
+
+    const keysById = new Map(
+      jobs.map((job) => [job.id, buildDedupeKey(job.company.name, job.title, job.location)])
+    );
+    const owners = await prisma.job.findMany({
+      where: { dedupeKey: { in: Array.from(new Set(keysById.values())) } },
+      select: { id: true, dedupeKey: true },
+    });
+    const ownerByKey = new Map(owners.map((owner) => [owner.dedupeKey as string, owner.id]));
+
+    const updates = [];
+    for (const job of jobs) {
+      const dedupeKey = keysById.get(job.id) as string;
+      const ownerId = ownerByKey.get(dedupeKey);
+      if (ownerId) {
+        updates.push(
+          prisma.job.update({ where: { id: job.id }, data: { duplicateOfId: ownerId } })
+        );
+        linked += 1;
+      } else {
+        ownerByKey.set(dedupeKey, job.id);
+        updates.push(prisma.job.update({ where: { id: job.id }, data: { dedupeKey } }));
+        keyed += 1;
+      }
+    }
+    await prisma.$transaction(updates);
+
+    scanned += jobs.length;
+    console.log(`  ${scanned}/${totalToScan} scanned, ${keyed} keyed, ${linked} linked as duplicates`);
+  }
+
+  // Groups keyed above (or before) under a row that has since closed
+  const reassigned = await reassignClosedDedupeOwners();
+
+  console.log("");
+  console.log(`Done. ${keyed} jobs keyed, ${linked} linked to an existing listing.`);
+  if (reassigned > 0) {
+    console.log(`${reassigned} groups moved from a closed listing to an active duplicate.`);
+  }
+  console.log("Run `npm run jobs:dedupe-report` to review the merged groups.");
+}
+
+main()
+  .catch((error) => {
+    console.error(`Dedupe backfill failed: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,72 @@
+import type { EmploymentType } from "@prisma/client";
+import { prisma } from "../src/lib/prisma";
+import { classifyEmploymentType } from "./lib/employment-type";
+
+const BATCH_SIZE = 1000;
+
+async function main() {
+  // By default only rows that were never classified are touched; --all re-runs
+  // the classifier over every job (e.g. after improving the rules).
+  const reclassifyAll = process.argv.includes("--all");
+  const where = reclassifyAll ? {} : { employmentType: "UNKNOWN" as const };
+
+  const totalToScan = await prisma.job.count({ where });
+  console.log(`Classifying ${totalToScan} jobs${reclassifyAll ? " (all)" : " (UNKNOWN only)"}...`);
+
+  const counts = new Map<EmploymentType, number>();
+  let scanned = 0;
+  let updated = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    // Page on id rather than a Prisma cursor: updated rows drop out of `where`
+    const jobs = await prisma.job.findMany({
+      where: cursor ? { ...where, id: { gt: cursor } } : where,
+      select: { id: true, title: true, descriptionText: true, employmentType: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (jobs.length === 0) {
+      break;
+    }
+    cursor = jobs[jobs.length - 1].id;
+
+    const idsByType = new Map<EmploymentType, string[]>();
+    for (const job of jobs) {
+      const employmentType = classifyEmploymentType(job);
+      counts.set(employmentType, (counts.get(employmentType) ?? 0) + 1);
+      if (employmentType === job.employmentType) {
+        continue;
+      }
+      const ids = idsByType.get(employmentType) ?? [];
+      ids.push(job.id);
+      idsByType.set(employmentType, ids);
+    }
+
+    for (const [employmentType, ids] of idsByType) {
+      const result = await prisma.job.updateMany({
+        where: { id: { in: ids } },
+        data: { employmentType },
+      });
+      updated += result.count;
+    }
+
+    scanned += jobs.length;
+    console.log(`  ${scanned}/${totalToScan} scanned, ${updated} updated`);
+  }
+
+  console.log("");
+  console.log(`Done. Scanned ${scanned} jobs, updated ${updated}.`);
+  for (const [employmentType, count] of Array.from(counts.entries()).sort()) {
+    console.log(`  ${employmentType.padEnd(10)} ${count}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(`Employment type backfill failed: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,90 @@
+import { prisma } from "../src/lib/prisma";
+import { getAdapter, type Company, type NormalizedJob } from "./ats";
+import { resolveJobLocations } from "./lib/job-locations";
+
+const BATCH_SIZE = 1000;
+
+async function main() {
+  // By default only jobs without location rows are parsed; --all rebuilds every
+  // job's rows (e.g. after improving the parser).
+  const rebuildAll = process.argv.includes("--all");
+  const where = rebuildAll ? {} : { locations: { none: {} } };
+
+  const totalToScan = await prisma.job.count({ where });
+  console.log(`Parsing locations for ${totalToScan} jobs${rebuildAll ? " (all)" : " (missing only)"}...`);
+
+  let scanned = 0;
+  let parsed = 0;
+  let rows = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    // Page on id rather than a Prisma cursor: parsed rows drop out of `where`
+    const jobs = await prisma.job.findMany({
+      where: cursor ? { ...where, id: { gt: cursor } } : where,
+      select: {
+        id: true,
+        location: true,
+        rawPayload: true,
+        company: {
+          select: {
+            id: true,
+            name: true,
+            platform: true,
+            boardUrl: true,
+            firstCrawledAt: true,
+            lastCrawledAt: true,
+          },
+        },
+      },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (jobs.length === 0) {
+      break;
+    }
+    cursor = jobs[jobs.length - 1].id;
+
+    const data = [];
+    for (const job of jobs) {
+      // Stored payloads give adapters with structured fields (Workable,
+      // SmartRecruiters) a chance to beat the parsed string
+      const company: Company = job.company;
+      let normalized: Pick<NormalizedJob, "location" | "locations"> = { location: job.location };
+      if (job.rawPayload !== null) {
+        const fromPayload = getAdapter(company)?.normalizeJob(company, job.rawPayload);
+        if (fromPayload) {
+          normalized = { location: job.location, locations: fromPayload.locations };
+        }
+      }
+      const locations = resolveJobLocations(normalized);
+      if (locations.length > 0) {
+        parsed += 1;
+      }
+      data.push(...locations.map((location) => ({ ...location, jobId: job.id })));
+    }
+
+    await prisma.$transaction([
+      ...(rebuildAll
+        ? [prisma.jobLocation.deleteMany({ where: { jobId: { in: jobs.map((job) => job.id) } } })]
+        : []),
+      prisma.jobLocation.createMany({ data }),
+    ]);
+    rows += data.length;
+
+    scanned += jobs.length;
+    console.log(`  ${scanned}/${totalToScan} scanned, ${parsed} parsed, ${rows} location rows`);
+  }
+
+  console.log("");
+  console.log(`Done. Scanned ${scanned} jobs, parsed ${parsed}, wrote ${rows} location rows.`);
+}
+
+main()
+  .catch((error) => {
+    console.error(`Location backfill failed: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
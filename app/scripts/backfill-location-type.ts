@@ -0,0 +1,72 @@
+import type { LocationType } from "@prisma/client";
+import { prisma } from "../src/lib/prisma";
+import { detectLocationType } from "./lib/location-type";
+
+const BATCH_SIZE = 1000;
+
+async function main() {
+  // By default only rows without a location type are touched; --all re-runs
+  // detection over every job (e.g. after improving the rules).
+  const reclassifyAll = process.argv.includes("--all");
+  const where = reclassifyAll ? {} : { locationType: "UNKNOWN" as const };
+
+  const totalToScan = await prisma.job.count({ where });
+  console.log(`Detecting location type for ${totalToScan} jobs${reclassifyAll ? " (all)" : " (UNKNOWN only)"}...`);
+
+  const counts = new Map<LocationType, number>();
+  let scanned = 0;
+  let updated = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    // Page on id rather than a Prisma cursor: updated rows drop out of `where`
+    const jobs = await prisma.job.findMany({
+      where: cursor ? { ...where, id: { gt: cursor } } : where,
+      select: { id: true, location: true, descriptionText: true, locationType: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (jobs.length === 0) {
+      break;
+    }
+    cursor = jobs[jobs.length - 1].id;
+
+    const idsByType = new Map<LocationType, string[]>();
+    for (const job of jobs) {
+      const locationType = detectLocationType(job);
+      counts.set(locationType, (counts.get(locationType) ?? 0) + 1);
+      if (locationType === job.locationType) {
+        continue;
+      }
+      const ids = idsByType.get(locationType) ?? [];
+      ids.push(job.id);
+      idsByType.set(locationType, ids);
+    }
+
+    for (const [locationType, ids] of idsByType) {
+      const result = await prisma.job.updateMany({
+        where: { id: { in: ids } },
+        data: { locationType },
+      });
+      updated += result.count;
+    }
+
+    scanned += jobs.length;
+    console.log(`  ${scanned}/${totalToScan} scanned, ${updated} updated`);
+  }
+
+  console.log("");
+  console.log(`Done. Scanned ${scanned} jobs, updated ${updated}.`);
+  for (const [locationType, count] of Array.from(counts.entries()).sort()) {
+    console.log(`  ${locationType.padEnd(10)} ${count}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(`Location type backfill failed: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+
+import { decodeCursor, encodeCursor, type JobCursor } from "../src/lib/job-cursor";
+import { parseJobQuery, queryToWhere } from "../src/lib/job-query";
+import { parseLocations } from "./lib/job-locations";
+import { parseSalaryFromText } from "./lib/salary";
+
+// Quick checks for the pure parsing code the crawler and /api/jobs rely on.
+// No database or network: run with `npm test`.
+
+const checks: Array<[string, () => void]> = [];
+
+function check(name: string, fn: () => void) {
+  checks.push([name, fn]);
+}
+
+const title = (value: string) => ({ type: "term", field: "title", value });
+
+check("query: exclusions of words and phrases", () => {
+  assert.deepEqual(parseJobQuery('engineer -senior -"staff engineer"', "title"), {
+    type: "and",
+    children: [
+      title("engineer"),
+      { type: "not", child: title("senior") },
+      { type: "not", child: title("staff engineer") },
+    ],
+  });
+});
+
+check("query: quoted phrase stays one term", () => {
+  assert.deepEqual(parseJobQuery('"machine learning" OR data', "title"), {
+    type: "or",
+    children: [title("machine learning"), title("data")],
+  });
+});
+
+check("query: unbalanced quote is closed at the end", () => {
+  assert.deepEqual(parseJobQuery('"unclosed phrase', "title"), title("unclosed phrase"));
+});
+
+check("query: hyphen inside a word is not an exclusion", () => {
+  assert.deepEqual(parseJobQuery("co-op", "title"), title("co-op"));
+});
+
+check("query: excluded location still matches jobs without one", () => {
+  const node = parseJobQuery("-remote", "location");
+  assert.ok(node);
+  assert.deepEqual(queryToWhere(node), {
+    OR: [{ location: null }, { NOT: { location: { contains: "remote", mode: "insensitive" } } }],
+  });
+});
+
+check("salary: yearly range next to years and 401k", () => {
+  const salary = parseSalaryFromText(
+    "Founded in 2015, we offer a 401k match. Salary: $120,000 - $150,000 per year."
+  );
+  assert.equal(salary?.min, 120000);
+  assert.equal(salary?.max, 150000);
+  assert.equal(salary?.currency, "USD");
+  assert.equal(salary?.period, "YEAR");
+});
+
+check("salary: hourly range", () => {
+  const salary = parseSalaryFromText("Pay: $45 - $55 per hour");
+  assert.deepEqual([salary?.min, salary?.max, salary?.period], [45, 55, "HOUR"]);
+});
+
+check("salary: single monthly amount", () => {
+  const salary = parseSalaryFromText("$8,000/month");
+  assert.deepEqual([salary?.min, salary?.max, salary?.period], [8000, null, "MONTH"]);
+});
+
+check("salary: K suffix and en dash", () => {
+  const salary = parseSalaryFromText("$120K–$150K");
+  assert.deepEqual([salary?.min, salary?.max, salary?.period], [120000, 150000, "YEAR"]);
+});
+
+check("salary: plain numbers are not a salary", () => {
+  assert.equal(parseSalaryFromText("Join our team of 500 people in 2024"), null);
+});
+
+check("locations: multiple places and remote", () => {
+  assert.deepEqual(parseLocations("New York, NY; Remote - US"), [
+    { city: "New York", region: "NY", countryCode: "US", isRemote: false },
+    { city: null, region: null, countryCode: "US", isRemote: true },
+  ]);
+});
+
+check("cursor: round-trips", () => {
+  const cursors: JobCursor[] = [
+    { sort: "postedAt", dir: "desc", value: "2026-10-01T00:00:00.000Z", id: "job_1" },
+    { sort: "salary", dir: "asc", value: null, id: "job_2", before: true },
+  ];
+  for (const cursor of cursors) {
+    assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+  }
+});
+
+check("cursor: rejects anything else", () => {
+  assert.equal(decodeCursor("not a cursor"), null);
+  assert.equal(decodeCursor(Buffer.from('{"sort":"postedAt"}').toString("base64url")), null);
+  assert.equal(
+    decodeCursor(Buffer.from('{"sort":"postedAt","dir":"up","value":null,"id":"x"}').toString("base64url")),
+    null
+  );
+});
+
+let failed = 0;
+for (const [name, fn] of checks) {
+  try {
+    fn();
+    console.log(`ok   ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`FAIL ${name}`);
+    console.error(error instanceof Error ? error.message : error);
+  }
+}
+console.log(`${checks.length - failed} of ${checks.length} checks passed`);
+if (failed > 0) {
+  process.exitCode = 1;
+}
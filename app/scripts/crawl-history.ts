@@ -0,0 +1,94 @@
+import { prisma } from "../src/lib/prisma";
+
+function formatDate(date: Date | null): string {
+  return date ? date.toISOString().replace("T", " ").slice(0, 19) : "-";
+}
+
+async function showRuns(limit: number) {
+  const runs = await prisma.crawlRun.findMany({
+    orderBy: { startedAt: "desc" },
+    take: limit,
+  });
+
+  if (runs.length === 0) {
+    console.log("No crawl runs recorded yet.");
+    return;
+  }
+
+  console.log(
+    `${"Run".padEnd(27)}${"Started".padEnd(21)}${"Status".padEnd(11)}${"Args".padEnd(36)}Companies (ok/failed)  Jobs (found/new/reactivated/closed)`
+  );
+  for (const run of runs) {
+    const args = run.args.join(" ") || "(all)";
+    console.log(
+      `${run.id.padEnd(27)}${formatDate(run.startedAt).padEnd(21)}${run.status.padEnd(11)}${args
+        .slice(0, 34)
+        .padEnd(36)}${`${run.companiesSucceeded}/${run.companiesFailed} of ${run.companiesTotal}`.padEnd(
+        23
+      )}${run.jobsFound}/${run.jobsCreated}/${run.jobsReactivated}/${run.jobsClosed}`
+    );
+  }
+}
+
+async function showCompany(filter: string, limit: number) {
+  const companies = await prisma.company.findMany({
+    where: { name: { contains: filter, mode: "insensitive" } },
+    select: { id: true, name: true, platform: true },
+    orderBy: { name: "asc" },
+  });
+
+  if (companies.length === 0) {
+    console.log(`No companies match "${filter}".`);
+    return;
+  }
+
+  for (const company of companies) {
+    const [lastSuccess, results] = await Promise.all([
+      prisma.crawlCompanyResult.findFirst({
+        where: { companyId: company.id, success: true },
+        orderBy: { startedAt: "desc" },
+        select: { startedAt: true },
+      }),
+      prisma.crawlCompanyResult.findMany({
+        where: { companyId: company.id },
+        orderBy: { startedAt: "desc" },
+        take: limit,
+      }),
+    ]);
+
+    console.log("");
+    console.log(`${company.name} (${company.platform})`);
+    console.log(`  Last successful crawl: ${formatDate(lastSuccess?.startedAt ?? null)}`);
+    for (const result of results) {
+      const outcome = result.success
+        ? `found ${result.jobsFound}, new ${result.jobsCreated}, reactivated ${result.jobsReactivated}, closed ${result.jobsClosed}`
+        : `error - ${result.errorMessage ?? "unknown"}`;
+      console.log(
+        `  ${formatDate(result.startedAt)}  ${(result.success ? "OK" : "FAILED").padEnd(7)}${`${(
+          result.durationMs / 1000
+        ).toFixed(1)}s`.padEnd(9)}${outcome}`
+      );
+    }
+  }
+}
+
+async function main() {
+  const companyArg = process.argv.find((arg) => arg.startsWith("--company="));
+  const limitArg = process.argv.find((arg) => arg.startsWith("--limit="));
+  const limit = limitArg ? Math.max(1, Number.parseInt(limitArg.replace("--limit=", ""), 10) || 10) : 10;
+
+  if (companyArg) {
+    await showCompany(companyArg.replace("--company=", "").trim(), limit);
+  } else {
+    await showRuns(limit);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(`Crawl history failed: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,407 +1,200 @@
+import { Prisma, type JobCloseReason, type JobStatus } from "@prisma/client";
 import { prisma } from "../src/lib/prisma";
 import * as fs from "fs";
 import * as path from "path";
-
-type GreenhouseJob = {
-  id: number;
-  title: string;
-  location: { name: string };
-  absolute_url: string;
-  created_at: string;
-  updated_at: string;
-  content?: string;
-};
-
-type LeverJob = {
+import { sleep } from "./ats/http";
+import { configureHttpRecorder, getCompanyScope, withHttpScope } from "./ats/recorder";
+import {
+  formatCompanyDiff,
+  hasChanges,
+  writeDiffReport,
+  type CompanyDiff,
+} from "./lib/crawl-diff";
+import { buildContentHash } from "./lib/content-hash";
+import { reassignClosedDedupeOwners, resolveDedupe } from "./lib/dedupe";
+import { fetchNewJobDetails, pruneJobDetailCache, type JobDetails } from "./lib/job-details";
+import { resolveJobLocations } from "./lib/job-locations";
+import { resolveJobSalary } from "./lib/salary";
+import { recordJobEvents, type JobEventInput } from "./lib/job-events";
+import { classifyEmploymentType } from "./lib/employment-type";
+import { detectLocationType } from "./lib/location-type";
+import { rawPayloadChanged, toRawPayload } from "./lib/raw-payload";
+import { runWorkerPool } from "./lib/worker-pool";
+import {
+  failActiveCrawlRun,
+  findResumableCrawlRun,
+  finishCrawlRun,
+  recordCompanyResult,
+  resumeCrawlRun,
+  startCrawlRun,
+  type ResumableCrawlRun,
+} from "./lib/crawl-runs";
+import {
+  atsAdapters,
+  getAdapter,
+  getSupportedCompanies,
+  type AtsAdapter,
+  type Company,
+  type NormalizedJob,
+} from "./ats";
+
+// Companies crawled at once unless --concurrency=N is passed. Per-host limits in
+// ats/http.ts and per-platform caps (maxConcurrentCompanies) still apply.
+const DEFAULT_CONCURRENCY = 4;
+
+// Closure guards (--max-drop=<percent>, --close-after-misses=<n>): skip all
+// closures when the board lists far fewer jobs than are ACTIVE (a truncated or
+// empty fetch), and only close a job once it has been missing this many crawls.
+const DEFAULT_MAX_DROP_PERCENT = 50;
+const DEFAULT_CLOSE_AFTER_MISSES = 2;
+
+// A normalized posting together with the ATS item it was built from
+type ListedJob = NormalizedJob & { rawPayload: unknown };
+
+type ExistingJob = {
   id: string;
-  text: string;
-  hostedUrl?: string;
-  applyUrl?: string;
-  createdAt?: number;
-  description?: string;
-  categories?: {
-    location?: string;
-    team?: string;
-    commitment?: string;
-  };
-};
-
-type WorkdayJob = {
-  jobId?: string;
-  title?: string;
-  externalPath?: string;
-  locationsText?: string;
-  postedOn?: string;
-  postedOnDate?: string;
-  bulletFields?: Array<{ label?: string; value?: string }>;
-  jobReqId?: string;
-};
-
-type IcimsJob = {
+  externalId: string | null;
+  status: JobStatus;
+  jobUrl: string;
   title: string;
   location: string | null;
-  jobUrl: string;
-  externalId: string | null;
-  description: string | null;
+  contentHash: string | null;
+  rawPayload: Prisma.JsonValue;
+  missedCrawls: number;
+  // ID used to match the row against the board (canonical ID when the ATS has one)
+  matchExternalId: string | null;
 };
 
-type SmartRecruitersJob = {
-  id: string;
-  name: string;
-  location: {
-    city?: string;
-    region?: string;
-    country?: string;
-  };
-  typeOfEmployment?: string;
-  company: {
-    identifier?: string;
-    name: string;
-  };
-  actions?: {
-    apply?: string;
-  };
-  postingUrl?: string;
-  applyUrl?: string;
-  jobAd?: {
-    sections?: {
-      companyDescription?: {
-        title?: string;
-        text?: string;
-      };
-      jobDescription?: {
-        title?: string;
-        text?: string;
-      };
-      qualifications?: {
-        title?: string;
-        text?: string;
-      };
-      additionalInformation?: {
-        title?: string;
-        text?: string;
-      };
-    };
-  };
+// Set on a matched job whose listing hash differs from the stored one
+type ContentUpdate = {
+  contentHash: string;
+  // Fields whose listing value differs from the row (empty: only the hash is new)
+  fields: Array<"title" | "location" | "description">;
+  storedDescription: string | null;
 };
 
-type WorkableJob = {
-  id: number;
-  shortcode: string;
-  title: string;
-  remote?: boolean;
-  location?: {
-    country?: string;
-    countryCode?: string;
-    city?: string;
-    region?: string;
-  };
-  locations?: Array<{
-    country?: string;
-    countryCode?: string;
-    city?: string;
-    region?: string;
-  }>;
-  state?: string;
-  published?: string;
-  type?: string; // "full", "part", "intern", etc.
-  department?: string[];
-  workplace?: string; // "remote", "hybrid", "on_site"
-};
-
-type Company = {
-  id: string;
-  name: string;
-  platform: "GREENHOUSE" | "LEVER" | "WORKDAY" | "ICIMS" | "SMARTRECRUITERS" | "WORKABLE" | "CUSTOM";
-  boardUrl: string;
-  firstCrawledAt: Date | null;
+type SeenJob = {
+  existing: ExistingJob;
+  // Null when only verifyById found the job
+  listed: ListedJob | null;
+  // Set when the stored external ID gets rewritten
+  externalId: string | null;
+  content?: ContentUpdate;
 };
 
-type NormalizedJob = {
-  companyName: string;
-  externalId: string;
-  title: string;
-  location: string | null;
-  postedAt: string | null;
-  jobUrl: string;
-  descriptionText?: string | null;
+// Everything a crawl changes for one company, computed before anything is written
+type CompanyPlan = {
+  // Jobs that stay or become ACTIVE
+  seen: SeenJob[];
+  create: ListedJob[];
+  // ACTIVE jobs missing long enough to be closed
+  close: Array<{ job: ExistingJob; reason: JobCloseReason }>;
+  // ACTIVE jobs missing from the board that haven't reached the miss threshold
+  missed: ExistingJob[];
+  // Set when the drop guard skipped closures for this crawl
+  closuresSkipped: string | null;
 };
 
-function getGreenhouseSlug(boardUrl: string): string {
-  const url = new URL(boardUrl);
-  const parts = url.pathname.split("/").filter(Boolean);
-  if (parts.length === 0) {
-    throw new Error(`Invalid Greenhouse board URL: ${boardUrl}`);
-  }
-  return parts[0];
-}
-
-async function fetchGreenhouseJobs(boardUrl: string): Promise<GreenhouseJob[]> {
-  const slug = getGreenhouseSlug(boardUrl);
-  const apiUrl = `https://boards-api.greenhouse.io/v1/boards/${slug}/jobs?content=true`;
-  const res = await fetch(apiUrl);
-
-  if (!res.ok) {
-    throw new Error(`Failed to fetch ${apiUrl}: ${res.status}`);
-  }
-
-  const data = (await res.json()) as { jobs: GreenhouseJob[] };
-  return data.jobs ?? [];
-}
-
-function normalizeGreenhouseJob(
-  companyName: string,
-  job: GreenhouseJob
-): NormalizedJob {
-  return {
-    companyName,
-    externalId: String(job.id),
+function toCompanyDiff(company: Company, jobsFound: number, plan: CompanyPlan): CompanyDiff {
+  const fromExisting = (job: ExistingJob) => ({
+    id: job.id,
+    externalId: job.externalId,
     title: job.title,
-    location: job.location?.name ?? null,
-    postedAt: job.created_at ?? null,
-    jobUrl: job.absolute_url,
-    descriptionText: job.content ?? null,
-  };
-}
-
-function getLeverSlug(boardUrl: string): string {
-  const url = new URL(boardUrl);
-  const parts = url.pathname.split("/").filter(Boolean);
-  if (parts.length === 0) {
-    throw new Error(`Invalid Lever board URL: ${boardUrl}`);
-  }
-  return parts[0];
-}
-
-async function fetchLeverJobs(boardUrl: string): Promise<LeverJob[]> {
-  const slug = getLeverSlug(boardUrl);
-  const apiUrl = `https://api.lever.co/v0/postings/${slug}?mode=json`;
-  const res = await fetch(apiUrl);
-
-  if (!res.ok) {
-    throw new Error(`Failed to fetch ${apiUrl}: ${res.status}`);
-  }
-
-  const data = (await res.json()) as LeverJob[];
-  return data ?? [];
-}
-
-function normalizeLeverJob(companyName: string, job: LeverJob): NormalizedJob {
-  const postedAt =
-    typeof job.createdAt === "number"
-      ? new Date(job.createdAt).toISOString()
-      : null;
+    jobUrl: job.jobUrl,
+  });
   return {
-    companyName,
-    externalId: job.id,
-    title: job.text,
-    location: job.categories?.location ?? null,
-    postedAt,
-    jobUrl: job.hostedUrl ?? job.applyUrl ?? "",
-    descriptionText: job.description ?? null,
+    companyId: company.id,
+    company: company.name,
+    platform: company.platform,
+    jobsFound,
+    created: plan.create.map((job) => ({
+      id: null,
+      externalId: job.externalId,
+      title: job.title,
+      location: job.location,
+      jobUrl: job.jobUrl,
+    })),
+    reactivated: plan.seen
+      .filter(({ existing }) => existing.status === "CLOSED")
+      .map(({ existing }) => fromExisting(existing)),
+    updated: plan.seen.flatMap(({ existing, content }) =>
+      content && content.fields.length > 0 ? [{ ...fromExisting(existing), fields: content.fields }] : []
+    ),
+    closed: plan.close.map(({ job, reason }) => ({ ...fromExisting(job), reason })),
+    missed: plan.missed.map((job) => ({ ...fromExisting(job), missedCrawls: job.missedCrawls + 1 })),
+    closuresSkipped: plan.closuresSkipped,
+    externalIdRewritten: plan.seen.flatMap(({ existing, externalId }) =>
+      externalId ? [{ ...fromExisting(existing), from: existing.externalId, to: externalId }] : []
+    ),
   };
 }
 
-type WorkdayParams = {
-  origin: string;
-  tenant: string;
-  site: string;
-  locale?: string;
-};
-
-const workdaySiteCache = new Map<string, WorkdayParams>();
-
-function getWorkdayParams(boardUrl: string): WorkdayParams {
-  const url = new URL(boardUrl);
-  const hostParts = url.hostname.split(".").filter(Boolean);
-  const tenant = hostParts.length > 0 ? hostParts[0] : "";
-  if (!tenant) {
-    throw new Error(`Invalid Workday board URL (missing tenant): ${boardUrl}`);
-  }
-  const pathParts = url.pathname.split("/").filter(Boolean);
-  if (pathParts.length === 0) {
-    throw new Error(`Invalid Workday board URL (missing site): ${boardUrl}`);
-  }
-  const locale =
-    /^[a-z]{2}-[A-Z]{2}$/.test(pathParts[0]) ? pathParts[0] : undefined;
-  let site = pathParts[0];
-  if (/^[a-z]{2}-[A-Z]{2}$/.test(pathParts[0]) && pathParts.length > 1) {
-    site = pathParts[1];
-  }
-  if (!site) {
-    throw new Error(`Invalid Workday board URL (missing site): ${boardUrl}`);
+// Fields of a unique constraint an insert violated, or null for any other error
+function uniqueViolationTarget(error: unknown): string | null {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== "P2002") {
+    return null;
   }
-  return { origin: url.origin, tenant, site, locale };
+  const target = error.meta?.target;
+  return Array.isArray(target) ? target.join(",") : String(target ?? "");
 }
 
-async function discoverWorkdaySite(boardUrl: string): Promise<WorkdayParams> {
-  const cached = workdaySiteCache.get(boardUrl);
-  if (cached) {
-    return cached;
-  }
-  const url = new URL(boardUrl);
-  const hostParts = url.hostname.split(".").filter(Boolean);
-  const tenant = hostParts.length > 0 ? hostParts[0] : "";
-  if (!tenant) {
-    throw new Error(`Invalid Workday board URL (missing tenant): ${boardUrl}`);
-  }
-
-  const res = await fetch(boardUrl, {
-    headers: {
-      Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-      "Accept-Language": "en-US,en;q=0.9",
-      "Cache-Control": "no-cache",
-      Pragma: "no-cache",
-      "User-Agent":
-        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-    },
-  });
-  if (!res.ok) {
-    throw new Error(`Failed to fetch ${boardUrl}: ${res.status}`);
-  }
-  const html = await res.text();
-
-  // Extract site from job links (the canonical source)
-  // Pattern: /{locale}/{site}/job/{location}/{title}_{id}
-  // or: /{locale}/{site}/details/{title}_{id}
-  const jobLinkPatterns = [
-    /\/([a-z]{2}[-_][A-Z]{2})\/([^/]+)\/job\//g,
-    /\/([a-z]{2}[-_][A-Z]{2})\/([^/]+)\/details\//g,
-    /href=["']\/([a-z]{2}[-_][A-Z]{2})\/([^/]+)\/job\//g,
-    /href=["']\/([a-z]{2}[-_][A-Z]{2})\/([^/]+)\/details\//g,
-  ];
-
-  let locale: string | undefined;
-  let site: string | undefined;
-
-  // Try to extract from job links (most reliable)
-  for (const pattern of jobLinkPatterns) {
-    const matches = Array.from(html.matchAll(pattern));
-    if (matches.length > 0) {
-      const match = matches[0];
-      locale = match[1].replace("_", "-");
-      site = match[2];
-      break;
-    }
-  }
+// Inserts a newly seen posting, with whatever the detail stage fetched for it.
+// If another board already lists the same job (same dedupe key) the row is
+// linked to it instead of becoming a second listing.
+async function createJob(company: Company, listedJob: ListedJob, details: JobDetails = {}) {
+  const job = { ...listedJob, ...details };
+  const insert = async () => {
+    const { dedupeKey, duplicateOfId } = await resolveDedupe(company.name, job.title, job.location);
+    return prisma.job.create({
+      data: {
+        companyId: company.id,
+        title: job.title,
+        location: job.location,
+        postedAt: job.postedAt ? new Date(job.postedAt) : null,
+        jobUrl: job.jobUrl,
+        applyUrl: job.jobUrl,
+        descriptionText: job.descriptionText,
+        requirementsText: job.requirementsText,
+        employmentType: classifyEmploymentType(job),
+        locationType: detectLocationType(job),
+        ...resolveJobSalary(job),
+        sourcePlatform: company.platform,
+        rawPayload: toRawPayload(listedJob.rawPayload),
+        contentHash: buildContentHash(listedJob),
+        locations: { create: resolveJobLocations(job) },
+        externalId: job.externalId,
+        dedupeKey,
+        duplicateOfId,
+        status: "ACTIVE",
+      },
+    });
+  };
 
-  // Fallback: try JSON-embedded site IDs (common in Workday HTML)
-  if (!site) {
-    const siteIdMatch =
-      html.match(/siteId:\s*"([^"]+)"/) ??
-      html.match(/"siteId"\s*:\s*"([^"]+)"/) ??
-      html.match(/"careerSiteId"\s*:\s*"([^"]+)"/);
-    if (siteIdMatch) {
-      site = siteIdMatch[1];
+  try {
+    return await insert();
+  } catch (error) {
+    // Another company crawled at the same time claimed the dedupe key between
+    // resolveDedupe and the insert; resolving again links this job to it
+    if (!uniqueViolationTarget(error)?.includes("dedupeKey")) {
+      throw error;
     }
+    return insert();
   }
-
-  if (!site) {
-    throw new Error(`Workday site slug not found in board HTML for ${boardUrl}`);
-  }
-
-  // Default to en-US if no locale found
-  if (!locale) {
-    locale = "en-US";
-  }
-
-  const params = { origin: url.origin, tenant, site, locale };
-  workdaySiteCache.set(boardUrl, params);
-  return params;
 }
 
-function buildWorkdayJobUrl(boardUrl: string, externalPath?: string): string {
-  if (!externalPath) {
-    return boardUrl;
-  }
-  if (externalPath.startsWith("http")) {
-    return externalPath;
-  }
-  const normalizedPath = externalPath.startsWith("/")
-    ? externalPath
-    : `/${externalPath}`;
-  const url = new URL(boardUrl);
-  const pathParts = url.pathname.split("/").filter(Boolean);
-  const basePath = `/${pathParts.join("/")}`.replace(/\/+$/, "");
-  const basePathLower = basePath.toLowerCase();
-  const locale =
-    pathParts.length > 0 && /^[a-z]{2}-[A-Z]{2}$/.test(pathParts[0])
-      ? pathParts[0]
-      : "";
-  const siteSegment =
-    locale && pathParts.length > 1 ? pathParts[1] : pathParts[0] ?? "";
-  const siteLower = siteSegment.toLowerCase();
-  const pathLower = normalizedPath.toLowerCase();
-  const hasSite =
-    siteLower &&
-    (pathLower === `/${siteLower}` ||
-      pathLower.startsWith(`/${siteLower}/`));
-  const hasLocale = /^\/[a-z]{2}-[A-Z]{2}\//.test(normalizedPath);
-
-  if (
-    hasSite ||
-    hasLocale ||
-    (basePathLower && pathLower.startsWith(basePathLower))
-  ) {
-    return `${url.origin}${normalizedPath}`;
-  }
-  if (basePath) {
-    return `${url.origin}${basePath}${normalizedPath}`;
-  }
-  if (siteSegment) {
-    return `${url.origin}/${siteSegment}${normalizedPath}`;
-  }
-  return `${url.origin}${normalizedPath}`;
-}
-
-function getWorkdayCanonicalId(value?: string | null): string | null {
-  if (!value) {
-    return null;
-  }
-  const underscored = value.match(/R\d{2}_\d{4,}/g);
-  if (underscored && underscored.length > 0) {
-    return underscored[underscored.length - 1];
-  }
-  const plain = value.match(/R\d{4,}/g);
-  if (plain && plain.length > 0) {
-    return plain[plain.length - 1];
-  }
-  return null;
-}
-
-function getWorkdayExternalId(job: WorkdayJob): string | null {
-  if (job.jobReqId) {
-    return job.jobReqId;
-  }
-  if (!job.externalPath) {
-    return null;
-  }
-  const canonical = getWorkdayCanonicalId(job.externalPath);
-  if (canonical) {
-    return canonical;
+// Collapse rows that share a canonical requisition ID (e.g. Workday jobs stored
+// under both their external path and their R-number) into a single job.
+async function mergeCanonicalDuplicates(
+  company: Company,
+  adapter: AtsAdapter,
+  crawlRunId: string | null = null
+) {
+  const getCanonicalId = adapter.getCanonicalId;
+  if (!getCanonicalId) {
+    return;
   }
-  return job.externalPath;
-}
-
-function stripHtmlTags(input: string): string {
-  return input
-    .replace(/<[^>]*>/g, " ")      // Remove HTML tags
-    .replace(/&nbsp;/gi, " ")       // Replace &nbsp; with space
-    .replace(/&amp;/gi, "&")        // Decode &amp;
-    .replace(/&lt;/gi, "<")         // Decode &lt;
-    .replace(/&gt;/gi, ">")         // Decode &gt;
-    .replace(/&quot;/gi, '"')       // Decode &quot;
-    .replace(/&#39;/gi, "'")        // Decode &#39;
-    .replace(/&apos;/gi, "'")       // Decode &apos;
-    .replace(/&#x27;/gi, "'")       // Decode &#x27;
-    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10))) // Numeric entities
-    .replace(/\s+/g, " ")           // Collapse whitespace
-    .trim();
-}
-
-async function mergeWorkdayDuplicates(companyId: string) {
   const jobs = await prisma.job.findMany({
-    where: { companyId, sourcePlatform: "WORKDAY" },
+    where: { companyId: company.id, sourcePlatform: company.platform },
     select: {
       id: true,
       externalId: true,
@@ -415,8 +208,8 @@ async function mergeWorkdayDuplicates(companyId: string) {
   const groups = new Map<string, typeof jobs>();
   for (const job of jobs) {
     const canonical =
-      getWorkdayCanonicalId(job.externalId) ??
-      getWorkdayCanonicalId(job.jobUrl) ??
+      getCanonicalId(job.externalId) ??
+      getCanonicalId(job.jobUrl) ??
       null;
     if (!canonical) {
       continue;
@@ -469,749 +262,32 @@ async function mergeWorkdayDuplicates(companyId: string) {
         },
       }),
     ]);
-  }
-}
-
-function getWorkdayLocation(job: WorkdayJob): string | null {
-  if (job.locationsText) {
-    return job.locationsText;
-  }
-  const locationField = job.bulletFields?.find((field) => {
-    const label = field.label?.toLowerCase() ?? "";
-    return label === "location" || label === "locations";
-  });
-  return locationField?.value ?? null;
-}
-
-function getWorkdayPostedAt(job: WorkdayJob): string | null {
-  if (job.postedOnDate) {
-    const parsed = new Date(job.postedOnDate);
-    if (!Number.isNaN(parsed.getTime())) {
-      return parsed.toISOString();
-    }
-  }
-  if (job.postedOn) {
-    const parsed = new Date(job.postedOn);
-    if (!Number.isNaN(parsed.getTime())) {
-      return parsed.toISOString();
-    }
-  }
-  return null;
-}
-
-async function fetchWorkdayJobs(boardUrl: string, debug = false): Promise<WorkdayJob[]> {
-  const { origin, tenant, site } = await discoverWorkdaySite(boardUrl);
-  
-  if (debug) {
-    console.log(`  [DEBUG] Discovered: tenant=${tenant}, site=${site}`);
-  }
-
-  const apiUrl = `${origin}/wday/cxs/${tenant}/${site}/jobs`;
-  
-  if (debug) {
-    console.log(`  [DEBUG] API URL: ${apiUrl}`);
-  }
-
-  const headers = {
-    'accept': 'application/json',
-    'accept-language': 'en-US',
-    'content-type': 'application/json',
-    'origin': origin,
-    'referer': boardUrl,
-    'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36',
-  };
-
-  const limit = 20; // Workday API hard limit
-  const concurrency = 10; // Optimal for production (faster than 15 with DB load)
-
-  // First, get total count
-  const initialResponse = await fetch(apiUrl, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({ appliedFacets: {}, limit, offset: 0, searchText: "" }),
-  });
-
-  if (!initialResponse.ok) {
-    if (debug) {
-      const errorText = await initialResponse.text();
-      console.log(`  [DEBUG] Error ${initialResponse.status}: ${errorText.substring(0, 200)}`);
-    }
-    return [];
-  }
-
-  const initialData = await initialResponse.json();
-  const total = initialData.total || 0;
-  
-  if (debug) {
-    console.log(`  [DEBUG] Total jobs: ${total}`);
-  }
-
-  if (total === 0) {
-    return [];
-  }
-
-  // Calculate all offsets needed
-  const offsets: number[] = [];
-  for (let offset = 0; offset < total; offset += limit) {
-    offsets.push(offset);
-  }
-
-  if (debug) {
-    console.log(`  [DEBUG] Requests needed: ${offsets.length}, concurrency: ${concurrency}`);
-  }
-
-  // Fetch in parallel batches
-  const allJobs: WorkdayJob[] = [];
-  
-  for (let i = 0; i < offsets.length; i += concurrency) {
-    const batch = offsets.slice(i, i + concurrency);
-    
-    const batchPromises = batch.map(async (offset) => {
-      try {
-        const response = await fetch(apiUrl, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify({ appliedFacets: {}, limit, offset, searchText: "" }),
-        });
-
-        if (!response.ok) {
-          return [];
-        }
-
-        const data = await response.json();
-        return data.jobPostings || [];
-      } catch (error) {
-        if (debug) {
-          console.log(`  [DEBUG] Fetch error at offset ${offset}: ${error}`);
-        }
-        return [];
-      }
-    });
-
-    const batchResults = await Promise.all(batchPromises);
-    const batchJobs = batchResults.flat();
-    allJobs.push(...batchJobs);
-
-    if (debug && i + concurrency < offsets.length) {
-      console.log(`  [DEBUG] Fetched ${allJobs.length}/${total} jobs...`);
-    }
-  }
-
-  if (debug) {
-    console.log(`  [DEBUG] Total jobs fetched: ${allJobs.length}`);
-  }
-
-  return allJobs;
-}
-
-async function workdaySearchById(
-  boardUrl: string,
-  id: string,
-  debug = false
-): Promise<boolean> {
-  const { origin, tenant, site } = await discoverWorkdaySite(boardUrl);
-  const apiUrl = `${origin}/wday/cxs/${tenant}/${site}/jobs`;
-  const headers = {
-    accept: "application/json",
-    "accept-language": "en-US",
-    "content-type": "application/json",
-    origin,
-    referer: boardUrl,
-    "user-agent":
-      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36",
-  };
-  const payload = {
-    appliedFacets: {},
-    limit: 5,
-    offset: 0,
-    searchText: id,
-  };
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(payload),
-    });
-    if (!response.ok) {
-      if (debug) {
-        const errorText = await response.text();
-        console.log(
-          `  [DEBUG] Workday search ${response.status} for ${id}: ${errorText.substring(0, 120)}`
-        );
-      }
-      return false;
-    }
-    const data = await response.json();
-    const jobPostings = data.jobPostings || [];
-    return jobPostings.some((job: WorkdayJob) => {
-      const externalId = getWorkdayExternalId(job);
-      return (
-        (externalId && externalId === id) ||
-        (job.externalPath && job.externalPath.includes(id))
-      );
-    });
-  } catch (error) {
-    if (debug) {
-      console.log(`  [DEBUG] Workday search error for ${id}: ${error}`);
-    }
-    return false;
-  }
-}
-
-function normalizeWorkdayJob(
-  companyName: string,
-  boardUrl: string,
-  job: WorkdayJob
-): NormalizedJob | null {
-  const externalId = getWorkdayExternalId(job) ?? "";
-  if (!externalId) {
-    return null;
-  }
-  const title = job.title?.trim() ?? "";
-  if (!title) {
-    return null;
-  }
-  return {
-    companyName,
-    externalId,
-    title,
-    location: getWorkdayLocation(job),
-    postedAt: getWorkdayPostedAt(job),
-    jobUrl: buildWorkdayJobUrl(boardUrl, job.externalPath),
-    // NOTE: Workday list API doesn't include descriptions
-    // Would require fetching each job page individually (very slow)
-    descriptionText: null,
-  };
-}
-
-function getIcimsSearchUrl(boardUrl: string): string {
-  try {
-    const url = new URL(boardUrl);
-    // Normalize to /jobs/search?ss=1
-    url.pathname = "/jobs/search";
-    const params = url.searchParams;
-    if (!params.get("ss")) {
-      params.set("ss", "1");
-    }
-    if (!params.get("in_iframe")) {
-      params.set("in_iframe", "1");
-    }
-    url.search = params.toString();
-    return url.toString();
-  } catch {
-    return boardUrl;
-  }
-}
-
-function parseIcimsJobs(html: string, baseUrl: string, debug = false): IcimsJob[] {
-  const jobs: IcimsJob[] = [];
-  
-  if (!html.includes("iCIMS_JobsTable")) {
-    if (debug) {
-      console.log(`  [DEBUG] No iCIMS_JobsTable found in page`);
-    }
-    return jobs;
-  }
-
-  // Updated regex: href comes BEFORE class in the HTML
-  const anchorRegex =
-    /href="([^"]+)"[^>]*class="iCIMS_Anchor"[^>]*>[\s\S]*?<h3[^>]*>([\s\S]*?)<\/h3>/gi;
-  let match: RegExpExecArray | null;
-
-  while ((match = anchorRegex.exec(html)) !== null) {
-    const href = match[1];
-    const title = stripHtmlTags(match[2]);
-    
-    if (!title) continue;
-
-    const anchorPos = match.index;
-    const rowStart = html.lastIndexOf('<div class="row', anchorPos);
-    const nextRow = html.indexOf('<div class="row', anchorPos + match[0].length);
-    const row =
-      rowStart >= 0
-        ? html.substring(
-            rowStart,
-            nextRow > rowStart ? nextRow : anchorPos + match[0].length + 4000
-          )
-        : match[0];
-
-    const jobUrl = href.startsWith("http")
-      ? href
-      : new URL(href, baseUrl).toString();
-
-    // Match <span> with any attributes (e.g., <span > or <span class="...">)
-    // Try multiple location patterns:
-    // 1. "Job Locations" field in header (Applied Systems style)
-    const locMatch =
-      row.match(/field-label">Job Locations<\/span>\s*<span[^>]*>\s*([\s\S]*?)<\/span>/i) ??
-      row.match(/field-label">Location<\/span>\s*<span[^>]*>\s*([\s\S]*?)<\/span>/i);
-    
-    let location: string | null = null;
-    if (locMatch) {
-      location = stripHtmlTags(locMatch[1]);
-    } else {
-      // 2. Country/City fields in additionalFields (SAS style)
-      const countryMatch = row.match(/field-label">\s*Country[^<]*<\/span>\s*<\/dt>\s*<dd[^>]*><span[^>]*>\s*([\s\S]*?)<\/span>/i);
-      const cityMatch = row.match(/field-label">\s*City<\/span>\s*<\/dt>\s*<dd[^>]*><span[^>]*>\s*([\s\S]*?)<\/span>/i);
-      const stateMatch = row.match(/field-label">\s*State<\/span>\s*<\/dt>\s*<dd[^>]*><span[^>]*>\s*([\s\S]*?)<\/span>/i);
-      
-      const parts = [];
-      if (cityMatch) parts.push(stripHtmlTags(cityMatch[1]));
-      if (stateMatch) parts.push(stripHtmlTags(stateMatch[1]));
-      if (countryMatch) parts.push(stripHtmlTags(countryMatch[1]));
-      
-      if (parts.length > 0) {
-        location = parts.join(', ');
-      }
-    }
-
-    // Match ID field with any dd/span attributes
-    const idMatch = row.match(
-      /iCIMS_JobHeaderField">(?:ID|Requisition ID)<\/dt>\s*<dd[^>]*><span[^>]*>\s*([\s\S]*?)<\/span>/i
-    );
-    const externalId = idMatch ? stripHtmlTags(idMatch[1]) : null;
-
-    const descMatch = row.match(/<div class="col-xs-12 description">([\s\S]*?)<\/div>/i);
-    const description = descMatch ? stripHtmlTags(descMatch[1]) : null;
-
-    jobs.push({
-      title,
-      jobUrl,
-      location,
-      externalId,
-      description,
-    });
-  }
-
-  return jobs;
-}
-
-async function fetchIcimsJobs(boardUrl: string, debug = false): Promise<IcimsJob[]> {
-  const baseUrl = getIcimsSearchUrl(boardUrl);
-  const jobs: IcimsJob[] = [];
-  let page = 1;
-  const headers = {
-    Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-    "Accept-Language": "en-US,en;q=0.9",
-    "User-Agent":
-      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-  };
-
-  while (true) {
-    const pageUrl = baseUrl.includes("?")
-      ? `${baseUrl}&pr=${page - 1}`
-      : `${baseUrl}?pr=${page - 1}`;
-
-    const res = await fetch(pageUrl, { headers });
-    if (!res.ok) {
-      if (debug) {
-        console.log(`  [DEBUG] ICIMS fetch failed ${res.status} for ${pageUrl}`);
-      }
-      break;
-    }
-    const html = await res.text();
-    const parsed = parseIcimsJobs(html, baseUrl, debug);
-    if (parsed.length === 0) {
-      if (debug) {
-        console.log(`  [DEBUG] ICIMS page ${page} returned 0 rows. Length=${html.length}.`);
-      }
-      break;
-    }
-    jobs.push(...parsed);
-    if (debug) {
-      console.log(`  [DEBUG] ICIMS page ${page}: ${parsed.length} jobs`);
-    }
-    page += 1;
-    if (page > 50) {
-      // safety stop
-      break;
-    }
-  }
-
-  if (debug) {
-    console.log(`  [DEBUG] ICIMS total jobs: ${jobs.length}`);
-  }
-
-  return jobs;
-}
-
-function normalizeIcimsJob(companyName: string, job: IcimsJob): NormalizedJob | null {
-  const title = job.title.trim();
-  if (!title) return null;
-  
-  // Extract external ID:  
-  // First try the ID field from the row
-  let externalId = job.externalId && job.externalId.trim() ? job.externalId.trim() : null;
-  
-  // If not found, extract from URL: /jobs/6419/title/job -> "6419"
-  if (!externalId) {
-    const urlMatch = job.jobUrl.match(/\/jobs\/(\d+)\//);
-    externalId = urlMatch ? urlMatch[1] : null;
-  }
-  
-  if (!externalId) return null;
-  
-  return {
-    companyName,
-    externalId,
-    title,
-    location: job.location,
-    postedAt: null,
-    jobUrl: job.jobUrl,
-    descriptionText: job.description,
-  };
-}
-
-function getSmartRecruitersSlug(boardUrl: string): string {
-  try {
-    const url = new URL(boardUrl);
-    const parts = url.pathname.split("/").filter(Boolean);
-    if (parts.length === 0) {
-      throw new Error(`Invalid SmartRecruiters board URL (no slug in path): ${boardUrl}`);
-    }
-    return parts[0];
-  } catch (error) {
-    throw new Error(`Invalid SmartRecruiters board URL: ${boardUrl}. Error: ${error instanceof Error ? error.message : String(error)}`);
-  }
-}
-
-async function fetchSmartRecruitersJobs(boardUrl: string, debug = false): Promise<SmartRecruitersJob[]> {
-  const slug = getSmartRecruitersSlug(boardUrl);
-  const apiUrl = `https://api.smartrecruiters.com/v1/companies/${slug}/postings`;
-  const limit = 100;
-  const concurrency = 10; // Parallel batch size
-
-  // First fetch to get total count
-  const initialUrl = `${apiUrl}?limit=${limit}&offset=0`;
-  const initialRes = await fetch(initialUrl, {
-    headers: {
-      "Accept": "application/json",
-      "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
-    },
-  });
-
-  if (!initialRes.ok) {
-    throw new Error(`Failed to fetch ${initialUrl}: ${initialRes.status}`);
-  }
-
-  const initialData = (await initialRes.json()) as { content: SmartRecruitersJob[]; totalFound: number };
-  const allJobs: SmartRecruitersJob[] = [...initialData.content];
-  const totalFound = initialData.totalFound;
-
-  if (debug) {
-    console.log(`  [DEBUG] SmartRecruiters total jobs: ${totalFound}`);
-  }
-
-  // If all jobs fetched in first request, return early
-  if (allJobs.length >= totalFound) {
-    return allJobs;
-  }
-
-  // Calculate remaining offsets to fetch
-  const offsets: number[] = [];
-  for (let offset = limit; offset < totalFound; offset += limit) {
-    offsets.push(offset);
-  }
-
-  // Fetch remaining pages in parallel batches
-  for (let i = 0; i < offsets.length; i += concurrency) {
-    const batch = offsets.slice(i, i + concurrency);
-    
-    const batchPromises = batch.map(async (offset) => {
-      const url = `${apiUrl}?limit=${limit}&offset=${offset}`;
-      const res = await fetch(url, {
-        headers: {
-          "Accept": "application/json",
-          "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
+    if (keeper.externalId !== canonicalId) {
+      await recordJobEvents(crawlRunId, [
+        {
+          jobId: keeper.id,
+          type: "EXTERNAL_ID_REWRITTEN",
+          fromValue: keeper.externalId,
+          toValue: canonicalId,
         },
-      });
-
-      if (!res.ok) {
-        if (debug) {
-          console.log(`  [DEBUG] SmartRecruiters fetch failed ${res.status} for offset ${offset}`);
-        }
-        return [];
-      }
-
-      const data = (await res.json()) as { content: SmartRecruitersJob[] };
-      return data.content || [];
-    });
-
-    const batchResults = await Promise.all(batchPromises);
-    const batchJobs = batchResults.flat();
-    allJobs.push(...batchJobs);
-
-    if (debug) {
-      console.log(`  [DEBUG] SmartRecruiters fetched batch: ${batchJobs.length} jobs (total: ${allJobs.length}/${totalFound})`);
-    }
-  }
-
-  // Validate we got all expected jobs to prevent false closures
-  if (allJobs.length !== totalFound) {
-    throw new Error(`SmartRecruiters data incomplete: expected ${totalFound} jobs but got ${allJobs.length}. Batch failures may have occurred.`);
-  }
-
-  return allJobs;
-}
-
-function normalizeSmartRecruitersJob(
-  companyName: string,
-  job: SmartRecruitersJob
-): NormalizedJob {
-  const locationParts = [
-    job.location?.city,
-    job.location?.region,
-    job.location?.country,
-  ].filter(Boolean);
-
-  const location = locationParts.length > 0 ? locationParts.join(", ") : null;
-
-  // Use the company identifier from the job, or fall back to constructing URL
-  const companySlug = job.company?.identifier || job.company?.name || '';
-  const jobUrl = job.postingUrl || job.applyUrl || `https://jobs.smartrecruiters.com/${companySlug}/${job.id}`;
-
-  return {
-    companyName,
-    externalId: job.id,
-    title: job.name,
-    location,
-    postedAt: null,
-    jobUrl,
-    descriptionText: null,
-  };
-}
-
-function getWorkableSlug(boardUrl: string): string {
-  try {
-    const url = new URL(boardUrl);
-    const parts = url.pathname.split("/").filter(Boolean);
-    if (parts.length === 0) {
-      throw new Error(`Invalid Workable board URL (no slug in path): ${boardUrl}`);
-    }
-    return parts[0];
-  } catch (error) {
-    throw new Error(`Invalid Workable board URL: ${boardUrl}. Error: ${error instanceof Error ? error.message : String(error)}`);
-  }
-}
-
-// Helper to sleep for a given number of milliseconds
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-// Adaptive rate limiting state for Workable
-let workableRateLimitHits = 0;
-let workableLastRequestTime = 0;
-
-// Helper to get adaptive delay based on rate limit history
-function getWorkableDelay(): number {
-  // Base delay of 1.5s, increasing by 500ms for each recent rate limit hit
-  const baseDelay = 1500;
-  const additionalDelay = Math.min(workableRateLimitHits * 1000, 5000);
-  return baseDelay + additionalDelay;
-}
-
-// Helper to fetch with retry logic for rate limits
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit,
-  maxRetries = 5,
-  debug = false
-): Promise<Response> {
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    // Enforce minimum time between Workable requests
-    if (url.includes('workable.com')) {
-      const timeSinceLastRequest = Date.now() - workableLastRequestTime;
-      const minDelay = getWorkableDelay();
-      if (timeSinceLastRequest < minDelay) {
-        await sleep(minDelay - timeSinceLastRequest);
-      }
-      workableLastRequestTime = Date.now();
-    }
-
-    const res = await fetch(url, options);
-
-    if (res.ok) {
-      // Successful request - gradually reduce rate limit hit counter
-      if (url.includes('workable.com') && workableRateLimitHits > 0) {
-        workableRateLimitHits = Math.max(0, workableRateLimitHits - 0.1);
-      }
-      return res;
-    }
-
-    if (res.status === 429) {
-      // Rate limited - increase hit counter and wait with exponential backoff
-      workableRateLimitHits++;
-      const waitTime = Math.min(5000 * Math.pow(2, attempt), 60000); // 5s, 10s, 20s, 40s, 60s
-      if (debug) {
-        console.log(`  [DEBUG] Rate limited (hit #${workableRateLimitHits}), waiting ${waitTime}ms before retry ${attempt + 1}/${maxRetries}`);
-      }
-      await sleep(waitTime);
-      lastError = new Error(`Rate limited (429)`);
-      continue;
-    }
-
-    // For other errors, don't retry
-    return res;
-  }
-
-  throw lastError || new Error('Max retries exceeded');
-}
-
-async function fetchWorkableJobs(boardUrl: string, debug = false): Promise<WorkableJob[]> {
-  const slug = getWorkableSlug(boardUrl);
-  const apiUrl = `https://apply.workable.com/api/v3/accounts/${slug}/jobs`;
-
-  const headers = {
-    Accept: "application/json",
-    "Accept-Language": "en-US,en;q=0.9",
-    "Content-Type": "application/json",
-    "User-Agent":
-      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-    Origin: "https://apply.workable.com",
-    Referer: boardUrl,
-  };
-
-  if (debug) {
-    console.log(`  [DEBUG] Workable API URL: ${apiUrl}`);
-  }
-
-  // First request to get total count
-  const initialBody = JSON.stringify({
-    query: "",
-    location: [],
-    department: [],
-    worktype: [],
-    remote: [],
-  });
-
-  const initialRes = await fetchWithRetry(apiUrl, {
-    method: "POST",
-    headers,
-    body: initialBody,
-  }, 3, debug);
-
-  if (!initialRes.ok) {
-    if (debug) {
-      const errorText = await initialRes.text();
-      console.log(`  [DEBUG] Workable error ${initialRes.status}: ${errorText.slice(0, 200)}`);
-    }
-    throw new Error(`Failed to fetch ${apiUrl}: ${initialRes.status}`);
-  }
-
-  const initialData = (await initialRes.json()) as { total?: number; results?: WorkableJob[] };
-  const total = initialData.total ?? 0;
-  const allJobs: WorkableJob[] = [...(initialData.results ?? [])];
-
-  if (debug) {
-    console.log(`  [DEBUG] Workable total jobs: ${total}`);
-  }
-
-  // If we got all jobs in the first request, return early
-  if (allJobs.length >= total) {
-    return allJobs;
-  }
-
-  // Paginate to get remaining jobs using the "token" field
-  // Workable uses cursor-based pagination with a token
-  let nextToken: string | undefined = (initialData as any).nextPage;
-
-  while (allJobs.length < total && nextToken) {
-    const pageBody = JSON.stringify({
-      query: "",
-      location: [],
-      department: [],
-      worktype: [],
-      remote: [],
-      token: nextToken,
-    });
-
-    const pageRes = await fetchWithRetry(apiUrl, {
-      method: "POST",
-      headers,
-      body: pageBody,
-    }, 3, debug);
-
-    if (!pageRes.ok) {
-      if (debug) {
-        console.log(`  [DEBUG] Workable pagination error ${pageRes.status}`);
-      }
-      break;
+      ]);
     }
-
-    const pageData = (await pageRes.json()) as { results?: WorkableJob[]; nextPage?: string };
-    const pageJobs = pageData.results ?? [];
-
-    if (pageJobs.length === 0) {
-      break;
-    }
-
-    allJobs.push(...pageJobs);
-    nextToken = pageData.nextPage;
-
-    if (debug) {
-      console.log(`  [DEBUG] Workable fetched ${allJobs.length}/${total} jobs...`);
-    }
-  }
-
-  if (debug) {
-    console.log(`  [DEBUG] Workable total jobs fetched: ${allJobs.length}`);
   }
-
-  return allJobs;
 }
 
-function normalizeWorkableJob(
-  companyName: string,
-  companySlug: string,
-  job: WorkableJob
-): NormalizedJob {
-  // Build location from the primary location object
-  const locationParts = [
-    job.location?.city,
-    job.location?.region,
-    job.location?.country,
-  ].filter(Boolean);
-
-  // Add remote indicator if workplace is remote
-  let location = locationParts.length > 0 ? locationParts.join(", ") : null;
-  if (job.workplace === "remote" || job.remote) {
-    location = location ? `${location} (Remote)` : "Remote";
-  } else if (job.workplace === "hybrid") {
-    location = location ? `${location} (Hybrid)` : "Hybrid";
-  }
-
-  // Construct job URL from shortcode
-  const jobUrl = `https://apply.workable.com/${companySlug}/j/${job.shortcode}/`;
-
-  return {
-    companyName,
-    externalId: job.shortcode,
-    title: job.title,
-    location,
-    postedAt: job.published ?? null,
-    jobUrl,
-    // NOTE: Workable list API doesn't include descriptions
-    // Would require fetching each job page individually
-    descriptionText: null,
-  };
-}
-
-function getSupportedCompanies(companies: Company[]): Company[] {
-  return companies.filter(
-    (company) =>
-      company.platform === "GREENHOUSE" ||
-      company.platform === "LEVER" ||
-      company.platform === "WORKDAY" ||
-      company.platform === "ICIMS" ||
-      company.platform === "SMARTRECRUITERS" ||
-      company.platform === "WORKABLE" ||
-      (company.platform === "CUSTOM" &&
-        company.boardUrl.toLowerCase().includes("icims.com"))
-  );
+// Value of a numeric --flag=<n>; anything unparseable or out of range is a
+// usage error rather than a silent fallback to the default
+function parseNumberFlag(
+  arg: string,
+  { min, max = Infinity, integer = false }: { min: number; max?: number; integer?: boolean }
+): number {
+  const [flag, raw = ""] = arg.split("=", 2);
+  const value = Number(raw.trim());
+  if (!raw.trim() || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+    const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+    throw new Error(`Invalid ${flag} value "${raw}": expected ${integer ? "a whole number" : "a number"} ${range}`);
+  }
+  return value;
 }
 
 async function main() {
@@ -1240,11 +316,36 @@ async function main() {
     logStream.write("ERROR: " + message + "\n");
   };
   
-  const keywordArg = process.argv.find((arg) => arg.startsWith("--keyword="));
+  // --resume continues the latest interrupted run (--resume=<id> picks one)
+  const resumeArg = process.argv.find(
+    (arg) => arg === "--resume" || arg.startsWith("--resume=")
+  );
+  let resumeRun: ResumableCrawlRun | null = null;
+  if (resumeArg) {
+    const resumeId = resumeArg.includes("=") ? resumeArg.replace("--resume=", "").trim() : "";
+    resumeRun = await findResumableCrawlRun(resumeId || undefined);
+    if (!resumeRun) {
+      console.log(
+        resumeId
+          ? `Crawl run ${resumeId} not found or already finished.`
+          : "No interrupted crawl run to resume."
+      );
+      return;
+    }
+    console.log(
+      `Resuming crawl run ${resumeRun.id} (${resumeRun.completedCompanyIds.size} companies already done)`
+    );
+  }
+  // A resumed run keeps its original filters; flags passed now (e.g. --debug) are added on top
+  const args = resumeRun
+    ? [...resumeRun.args, ...process.argv.slice(2).filter((arg) => arg !== resumeArg)]
+    : process.argv.slice(2);
+
+  const keywordArg = args.find((arg) => arg.startsWith("--keyword="));
   const keyword = keywordArg
     ? keywordArg.replace("--keyword=", "").trim().toLowerCase()
     : "";
-  const companyArg = process.argv.find((arg) => arg.startsWith("--company="));
+  const companyArg = args.find((arg) => arg.startsWith("--company="));
   const companyFilters = companyArg
     ? companyArg
         .replace("--company=", "")
@@ -1252,7 +353,7 @@ async function main() {
         .map((value) => value.trim().toLowerCase())
         .filter(Boolean)
     : [];
-  const atsArg = process.argv.find((arg) => arg.startsWith("--ats="));
+  const atsArg = args.find((arg) => arg.startsWith("--ats="));
   const atsFilter = atsArg
     ? atsArg
         .replace("--ats=", "")
@@ -1260,14 +361,57 @@ async function main() {
         .map((value) => value.trim().toUpperCase())
         .filter(Boolean)
     : [];
-  const debugMode = process.argv.includes("--debug");
+  const debugMode = args.includes("--debug");
   const newOnlyMode =
-    process.argv.includes("--new-only") || process.argv.includes("--new");
-  const workdayVerifyDisabled = process.argv.includes("--no-workday-verify");
-  const workdayRepairMode = process.argv.includes("--repair-workday");
+    args.includes("--new-only") || args.includes("--new");
+  const workdayVerifyDisabled = args.includes("--no-workday-verify");
+  const workdayRepairMode = args.includes("--repair-workday");
+  // Skips the detail-page stage; new jobs keep only what the listing had
+  const detailsDisabled = args.includes("--no-details");
   const workdayVerifyEnabled = !workdayVerifyDisabled;
+  // --dry-run reports what would change without writing to the database;
+  // --dry-run=<file> chooses where the JSON diff goes
+  const dryRunArg = args.find((arg) => arg === "--dry-run" || arg.startsWith("--dry-run="));
+  const dryRunMode = Boolean(dryRunArg);
+  const dryRunReportPath = dryRunArg?.includes("=")
+    ? path.resolve(dryRunArg.replace("--dry-run=", "").trim())
+    : path.join(logsDir, `crawl-dry-run-${timestamp}.json`);
+  const dryRunDiffs: CompanyDiff[] = [];
+  const maxDropArg = args.find((arg) => arg.startsWith("--max-drop="));
+  const maxDropPercent = maxDropArg
+    ? parseNumberFlag(maxDropArg, { min: 0, max: 100 })
+    : DEFAULT_MAX_DROP_PERCENT;
+  const closeAfterArg = args.find((arg) => arg.startsWith("--close-after-misses="));
+  const closeAfterMisses = closeAfterArg
+    ? parseNumberFlag(closeAfterArg, { min: 1, integer: true })
+    : DEFAULT_CLOSE_AFTER_MISSES;
+  const recordArg = args.find((arg) => arg.startsWith("--record="));
+  const replayArg = args.find((arg) => arg.startsWith("--replay="));
+  if (recordArg && replayArg) {
+    throw new Error("--record and --replay can't be used together");
+  }
+  const replayMode = Boolean(replayArg);
+  if (recordArg) {
+    configureHttpRecorder("record", recordArg.replace("--record=", "").trim());
+  } else if (replayArg) {
+    configureHttpRecorder("replay", replayArg.replace("--replay=", "").trim());
+  }
+  const concurrencyArg = args.find((arg) => arg.startsWith("--concurrency="));
+  const concurrency = concurrencyArg
+    ? Math.max(1, Number.parseInt(concurrencyArg.replace("--concurrency=", ""), 10) || 1)
+    : DEFAULT_CONCURRENCY;
   
   console.log(`Log file: ${logFilePath}`);
+  console.log(`Concurrency: ${concurrency} companies`);
+  if (dryRunMode) {
+    console.log("Dry run: no database writes");
+  }
+  if (recordArg) {
+    console.log(`Recording HTTP responses to ${recordArg.replace("--record=", "")}`);
+  }
+  if (replayArg) {
+    console.log(`Replaying HTTP responses from ${replayArg.replace("--replay=", "")} (no network)`);
+  }
   
   const companiesFromDb = await prisma.company.findMany({
     select: {
@@ -1276,23 +420,28 @@ async function main() {
       platform: true,
       boardUrl: true,
       firstCrawledAt: true,
+      lastCrawledAt: true,
     },
-  } as any);
+  });
   
   const companies: Company[] = companiesFromDb.map((c) => ({
     id: c.id,
     name: c.name,
     platform: c.platform as Company["platform"],
     boardUrl: c.boardUrl,
-    firstCrawledAt: (c as { firstCrawledAt?: Date | null }).firstCrawledAt ?? null,
+    firstCrawledAt: c.firstCrawledAt,
+    lastCrawledAt: c.lastCrawledAt,
   }));
   
   let supportedCompanies = getSupportedCompanies(companies);
   
   // Filter for companies that have never been crawled
   if (newOnlyMode) {
+    // When resuming, companies first crawled by the interrupted run still count as new
     supportedCompanies = supportedCompanies.filter(
-      (company) => !company.firstCrawledAt
+      (company) =>
+        !company.firstCrawledAt ||
+        (resumeRun !== null && company.firstCrawledAt >= resumeRun.startedAt)
     );
     console.log(`Filtering for new companies only: ${supportedCompanies.length} companies`);
   }
@@ -1300,11 +449,11 @@ async function main() {
   // Sort companies by least recently crawled first (null = never crawled goes first)
   supportedCompanies.sort((a, b) => {
     // Never crawled (null) should come first
-    if (!a.firstCrawledAt && !b.firstCrawledAt) return 0;
-    if (!a.firstCrawledAt) return -1;
-    if (!b.firstCrawledAt) return 1;
+    if (!a.lastCrawledAt && !b.lastCrawledAt) return 0;
+    if (!a.lastCrawledAt) return -1;
+    if (!b.lastCrawledAt) return 1;
     // Otherwise, oldest crawl first
-    return a.firstCrawledAt.getTime() - b.firstCrawledAt.getTime();
+    return a.lastCrawledAt.getTime() - b.lastCrawledAt.getTime();
   });
   
   if (atsFilter.length > 0) {
@@ -1326,8 +475,19 @@ async function main() {
     );
   }
 
+  if (resumeRun) {
+    const completed = resumeRun.completedCompanyIds;
+    supportedCompanies = supportedCompanies.filter((company) => !completed.has(company.id));
+  }
+
   if (supportedCompanies.length === 0) {
-    console.log("No supported ATS companies found (Greenhouse, Lever, Workday, iCIMS, SmartRecruiters, Workable).");
+    if (resumeRun) {
+      console.log(`All companies in crawl run ${resumeRun.id} already completed.`);
+      await finishCrawlRun(await resumeCrawlRun(resumeRun.id));
+      return;
+    }
+    const labels = atsAdapters.map((adapter) => adapter.label).join(", ");
+    console.log(`No supported ATS companies found (${labels}).`);
     return;
   }
 
@@ -1363,55 +523,44 @@ async function main() {
     )}Status        Total Jobs     New Jobs       Total Closed   New Closed`
   );
 
-  for (const company of supportedCompanies) {
+  const crawlRunId = dryRunMode
+    ? null
+    : resumeRun
+    ? await resumeCrawlRun(resumeRun.id)
+    : await startCrawlRun({
+        args,
+        atsFilter,
+        companyFilter: companyFilters,
+        newOnly: newOnlyMode,
+        repairWorkday: workdayRepairMode,
+        companiesTotal: supportedCompanies.length,
+      });
+
+  const crawlCompany = async (company: Company) => {
+    const companyStartedAt = new Date();
     try {
       const isNewCompany = !company.firstCrawledAt;
-      if (isNewCompany) {
+      if (isNewCompany && !dryRunMode) {
         // Mark as seen so subsequent runs treat it as OLD, even if inserts fail
         await prisma.company.update({
           where: { id: company.id },
-          data: { firstCrawledAt: new Date() } as any,
+          data: { firstCrawledAt: new Date() },
         });
       }
 
-      let normalized: NormalizedJob[] = [];
-      let workdayJobs: WorkdayJob[] | null = null;
-      const effectivePlatform =
-        company.platform === "CUSTOM" &&
-        company.boardUrl.toLowerCase().includes("icims.com")
-          ? "ICIMS"
-          : company.platform;
-
-      if (effectivePlatform === "GREENHOUSE") {
-        const jobs = await fetchGreenhouseJobs(company.boardUrl);
-        normalized = jobs.map((job) => normalizeGreenhouseJob(company.name, job));
-      } else if (effectivePlatform === "LEVER") {
-        const jobs = await fetchLeverJobs(company.boardUrl);
-        normalized = jobs
-          .map((job) => normalizeLeverJob(company.name, job))
-          .filter((job) => job.jobUrl);
-      } else if (effectivePlatform === "WORKDAY") {
-        workdayJobs = await fetchWorkdayJobs(company.boardUrl, debugMode);
-        normalized = workdayJobs
-          .map((job) => normalizeWorkdayJob(company.name, company.boardUrl, job))
-          .filter((job): job is NormalizedJob => Boolean(job && job.jobUrl));
-      } else if (effectivePlatform === "ICIMS") {
-        const jobs = await fetchIcimsJobs(company.boardUrl, debugMode);
-        normalized = jobs
-          .map((job) => normalizeIcimsJob(company.name, job))
-          .filter((job): job is NormalizedJob => Boolean(job && job.jobUrl));
-      } else if (effectivePlatform === "SMARTRECRUITERS") {
-        const jobs = await fetchSmartRecruitersJobs(company.boardUrl, debugMode);
-        normalized = jobs.map((job) => normalizeSmartRecruitersJob(company.name, job));
-      } else if (effectivePlatform === "WORKABLE") {
-        const companySlug = getWorkableSlug(company.boardUrl);
-        const jobs = await fetchWorkableJobs(company.boardUrl, debugMode);
-        normalized = jobs.map((job) => normalizeWorkableJob(company.name, companySlug, job));
-      } else {
+      const adapter = getAdapter(company);
+      if (!adapter) {
         console.log(`${company.name}: unsupported ATS (${company.platform})`);
-        continue;
+        return;
       }
 
+      const fetchOptions = { debug: debugMode };
+      const rawJobs = await adapter.fetchJobs(company, fetchOptions);
+      const normalized: ListedJob[] = rawJobs.flatMap((rawPayload) => {
+        const job = adapter.normalizeJob(company, rawPayload);
+        return job && job.jobUrl ? [{ ...job, rawPayload }] : [];
+      });
+
       const normalizedAll = normalized;
       let normalizedForCreate = normalizedAll;
       if (keyword) {
@@ -1429,55 +578,35 @@ async function main() {
           sourcePlatform: company.platform as any,
           // ✅ Removed status filter - fetch ALL jobs
         },
-        select: { id: true, externalId: true, status: true, jobUrl: true },
+        select: {
+          id: true,
+          externalId: true,
+          status: true,
+          jobUrl: true,
+          title: true,
+          location: true,
+          contentHash: true,
+          rawPayload: true,
+          missedCrawls: true,
+        },
       });
-      const closedBeforeCount = existingJobs.filter(
-        (job) => job.status === "CLOSED"
-      ).length;
-      const existingJobsWithMatchId =
-        company.platform === "WORKDAY"
-          ? existingJobs.map((job) => ({
-              ...job,
-              matchExternalId:
-                getWorkdayCanonicalId(job.externalId) ??
-                getWorkdayCanonicalId(job.jobUrl) ??
-                job.externalId ??
-                null,
-            }))
-          : existingJobs.map((job) => ({
-              ...job,
-              matchExternalId: job.externalId ?? null,
-            }));
-      
-      let newJobsForCompany = 0;
+      const getCanonicalId = (value?: string | null) =>
+        adapter.getCanonicalId?.(value) ?? null;
+      const existingJobsWithMatchId: ExistingJob[] = existingJobs.map((job) => ({
+        ...job,
+        matchExternalId:
+          getCanonicalId(job.externalId) ??
+          getCanonicalId(job.jobUrl) ??
+          job.externalId ??
+          null,
+      }));
 
       // Get current job IDs from the board
       const currentExternalIds = new Set(
-        (company.platform === "WORKDAY" && workdayJobs
-          ? workdayJobs
-              .flatMap((job) => {
-                const ids = new Set<string>();
-                const externalId = getWorkdayExternalId(job);
-                if (externalId) {
-                  ids.add(externalId);
-                }
-                if (job.externalPath) {
-                  ids.add(job.externalPath);
-                }
-                const jobUrl = buildWorkdayJobUrl(
-                  company.boardUrl,
-                  job.externalPath
-                );
-                const canonicalFromUrl = getWorkdayCanonicalId(jobUrl);
-                if (canonicalFromUrl) {
-                  ids.add(canonicalFromUrl);
-                }
-                return Array.from(ids);
-              })
-              .filter((id): id is string => Boolean(id))
-          : normalizedAll
-              .map((job) => job.externalId)
-              .filter((id): id is string => Boolean(id)))
+        (adapter.getBoardIds
+          ? rawJobs.flatMap((job) => adapter.getBoardIds?.(company, job) ?? [])
+          : normalizedAll.map((job) => job.externalId)
+        ).filter((id): id is string => Boolean(id))
       );
       const createExternalIds = new Set(
         normalizedForCreate
@@ -1490,25 +619,27 @@ async function main() {
           .filter(([externalId]) => Boolean(externalId))
       );
 
-      let newClosedJobsForCompany = 0;
-      if (company.platform === "WORKDAY") {
-        // Close everything up front, then reactivate only what we see on the board.
-        await prisma.job.updateMany({
-          where: { companyId: company.id, sourcePlatform: "WORKDAY" },
-          data: { status: "CLOSED" },
-        });
-
-        const normalizedByExternalId = new Map(
-          normalizedAll.map((job) => [job.externalId, job] as const)
-        );
-        const activatedIds = new Set<string>();
+      // Work out every change first; nothing is written until the plan is complete
+      const plan: CompanyPlan = {
+        seen: [],
+        create: [],
+        close: [],
+        missed: [],
+        closuresSkipped: null,
+      };
+      // ACTIVE jobs not found this crawl; the guards below decide what happens to them
+      const missingJobs: Array<{ job: ExistingJob; reason: JobCloseReason }> = [];
+      const seenJobIds = new Set<string>();
+      const plannedCreateIds = new Set<string>();
 
+      if (adapter.closeBeforeReactivate) {
+        // Anything not matched on the board (or confirmed by verifyById) is a closure candidate
         for (const job of normalizedAll) {
           const candidateIds = new Set<string>();
           if (job.externalId) {
             candidateIds.add(job.externalId);
           }
-          const canonicalFromUrl = getWorkdayCanonicalId(job.jobUrl);
+          const canonicalFromUrl = getCanonicalId(job.jobUrl);
           if (canonicalFromUrl) {
             candidateIds.add(canonicalFromUrl);
           }
@@ -1518,217 +649,342 @@ async function main() {
             .find(Boolean);
 
           if (existingJob) {
+            if (seenJobIds.has(existingJob.id)) {
+              continue;
+            }
+            seenJobIds.add(existingJob.id);
             const activeExternalId =
               Array.from(candidateIds).find(
                 (candidate) => candidate === existingJob.matchExternalId
               ) ?? existingJob.matchExternalId;
-          const updateData: Record<string, any> = {
-            lastSeenAt: new Date(),
-            status: "ACTIVE",
-          };
-          if (activeExternalId && existingJob.externalId !== activeExternalId) {
-            const conflict = await prisma.job.findFirst({
-              where: {
-                sourcePlatform: company.platform as any,
-                externalId: activeExternalId,
-                id: { not: existingJob.id },
-              },
-              select: { id: true },
-            });
-            if (!conflict) {
-              updateData.externalId = activeExternalId;
-            }
-          }
-            await prisma.job.update({
-              where: { id: existingJob.id },
-              data: updateData,
-            });
-            activatedIds.add(existingJob.matchExternalId ?? job.externalId);
-            if (existingJob.status === "CLOSED") {
-              newJobsForCompany += 1;
+            let externalId: string | null = null;
+            if (activeExternalId && existingJob.externalId !== activeExternalId) {
+              const conflict = await prisma.job.findFirst({
+                where: {
+                  sourcePlatform: company.platform as any,
+                  externalId: activeExternalId,
+                  id: { not: existingJob.id },
+                },
+                select: { id: true },
+              });
+              if (!conflict) {
+                externalId = activeExternalId;
+              }
             }
+            plan.seen.push({ existing: existingJob, listed: job, externalId });
             continue;
           }
 
-          try {
-            await prisma.job.create({
-              data: {
-                companyId: company.id,
-                title: job.title,
-                location: job.location,
-                postedAt: job.postedAt ? new Date(job.postedAt) : null,
-                jobUrl: job.jobUrl,
-                applyUrl: job.jobUrl,
-                descriptionText: job.descriptionText,
-                sourcePlatform: company.platform as any,
-                externalId: job.externalId,
-                status: "ACTIVE",
-              },
-            });
-
-            activatedIds.add(job.externalId);
-            newJobsForCompany += 1;
-            totalCreated += 1;
-            jobsCreatedByPlatform.set(
-              company.platform,
-              (jobsCreatedByPlatform.get(company.platform) ?? 0) + 1
-            );
-          } catch (error: any) {
-            if (
-              error?.code !== "P2002" &&
-              !error?.message?.includes("Unique constraint failed")
-            ) {
-              throw error;
-            }
+          if (!plannedCreateIds.has(job.externalId)) {
+            plannedCreateIds.add(job.externalId);
+            plan.create.push(job);
           }
         }
 
-        if (workdayVerifyEnabled) {
-          const closedJobs = await prisma.job.findMany({
-            where: {
-              companyId: company.id,
-              sourcePlatform: "WORKDAY",
-              status: "CLOSED",
-            },
-            select: { id: true, externalId: true, jobUrl: true, status: true },
-          });
-
-          // Process closed jobs in parallel batches
+        const unseenJobs = existingJobsWithMatchId.filter((job) => !seenJobIds.has(job.id));
+        const verifiedIds = new Set<string>();
+        const verifyById = adapter.verifyById;
+        if (workdayVerifyEnabled && verifyById) {
+          // Process unseen jobs in parallel batches
           const concurrency = 10;
-          const jobsToReactivate: string[] = [];
+          for (let i = 0; i < unseenJobs.length; i += concurrency) {
+            const batch = unseenJobs.slice(i, i + concurrency);
 
-          for (let i = 0; i < closedJobs.length; i += concurrency) {
-            const batch = closedJobs.slice(i, i + concurrency);
-            
             const results = await Promise.all(
-              batch.map(async (closedJob) => {
+              batch.map(async (unseenJob) => {
                 const canonical =
-                  getWorkdayCanonicalId(closedJob.externalId) ??
-                  getWorkdayCanonicalId(closedJob.jobUrl);
+                  getCanonicalId(unseenJob.externalId) ??
+                  getCanonicalId(unseenJob.jobUrl);
                 if (!canonical) {
                   return null;
                 }
-                const found = await workdaySearchById(
-                  company.boardUrl,
-                  canonical,
-                  debugMode
-                );
-                return found ? closedJob.id : null;
+                const found = await verifyById(company, canonical, fetchOptions);
+                return found ? unseenJob.id : null;
               })
             );
 
-            jobsToReactivate.push(...results.filter((id): id is string => id !== null));
+            for (const id of results) {
+              if (id) {
+                verifiedIds.add(id);
+              }
+            }
           }
+        }
 
-          // Reactivate found jobs
-          for (const jobId of jobsToReactivate) {
-            await prisma.job.update({
-              where: { id: jobId },
-              data: { status: "ACTIVE", lastSeenAt: new Date() },
+        for (const unseenJob of unseenJobs) {
+          if (verifiedIds.has(unseenJob.id)) {
+            plan.seen.push({ existing: unseenJob, listed: null, externalId: null });
+          } else if (unseenJob.status === "ACTIVE") {
+            missingJobs.push({
+              job: unseenJob,
+              reason: workdayVerifyEnabled && verifyById ? "NOT_FOUND_BY_ID" : "MISSING_FROM_BOARD",
             });
-            newJobsForCompany += 1;
           }
         }
-
-        const closedAfterCount = await prisma.job.count({
-          where: {
-            companyId: company.id,
-            sourcePlatform: "WORKDAY",
-            status: "CLOSED",
-          },
-        });
-        newClosedJobsForCompany = Math.max(0, closedAfterCount - closedBeforeCount);
-        totalNewClosed += newClosedJobsForCompany;
-        jobsClosedByPlatform.set(
-          company.platform,
-          (jobsClosedByPlatform.get(company.platform) ?? 0) +
-            newClosedJobsForCompany
-        );
-
-        await mergeWorkdayDuplicates(company.id);
       } else {
-        // Create or reactivate jobs
         for (const job of normalizedAll) {
           if (!job.externalId) {
             continue;
           }
           const existingJob = existingJobsByExternalId.get(job.externalId);
           if (existingJob) {
-            const updateData: Record<string, any> = {
-              lastSeenAt: new Date(),
-              status: "ACTIVE",
-            };
-            if (existingJob.externalId !== job.externalId) {
-              updateData.externalId = job.externalId;
-            }
-            await prisma.job.update({
-              where: { id: existingJob.id },
-              data: updateData,
-            });
-            if (existingJob.status === "CLOSED") {
-              newJobsForCompany += 1;
+            if (!seenJobIds.has(existingJob.id)) {
+              seenJobIds.add(existingJob.id);
+              plan.seen.push({
+                existing: existingJob,
+                listed: job,
+                externalId: existingJob.externalId !== job.externalId ? job.externalId : null,
+              });
             }
             continue;
           }
 
-          if (!createExternalIds.has(job.externalId)) {
-            continue;
-          }
-
-          try {
-            await prisma.job.create({
-              data: {
-                companyId: company.id,
-                title: job.title,
-                location: job.location,
-                postedAt: job.postedAt ? new Date(job.postedAt) : null,
-                jobUrl: job.jobUrl,
-                applyUrl: job.jobUrl,
-                descriptionText: job.descriptionText,
-                sourcePlatform: company.platform as any,
-                externalId: job.externalId,
-                status: "ACTIVE",
-              },
-            });
-
-            newJobsForCompany += 1;
-            totalCreated += 1;
-            jobsCreatedByPlatform.set(
-              company.platform,
-              (jobsCreatedByPlatform.get(company.platform) ?? 0) + 1
-            );
-          } catch (error: any) {
-            if (
-              error?.code !== "P2002" &&
-              !error?.message?.includes("Unique constraint failed")
-            ) {
-              throw error;
-            }
+          if (createExternalIds.has(job.externalId) && !plannedCreateIds.has(job.externalId)) {
+            plannedCreateIds.add(job.externalId);
+            plan.create.push(job);
           }
         }
 
-        // Deactivate ACTIVE jobs that are no longer on the board
+        // ACTIVE jobs that are no longer on the board
         for (const existingJob of existingJobsWithMatchId) {
           if (
             existingJob.status === "ACTIVE" &&
             existingJob.matchExternalId &&
             !currentExternalIds.has(existingJob.matchExternalId)
           ) {
-            await prisma.job.update({
-              where: { id: existingJob.id },
-              data: { status: "CLOSED" },
-            });
-            newClosedJobsForCompany += 1;
+            missingJobs.push({ job: existingJob, reason: "MISSING_FROM_BOARD" });
+          }
+        }
+      }
+
+      // A board listing far fewer jobs than we have ACTIVE is much more likely a
+      // truncated fetch than mass closures: leave every job alone this crawl.
+      const activeBeforeCount = existingJobs.filter((job) => job.status === "ACTIVE").length;
+      const dropPercent =
+        activeBeforeCount > 0
+          ? ((activeBeforeCount - normalizedAll.length) / activeBeforeCount) * 100
+          : 0;
+      if (missingJobs.length > 0 && dropPercent > maxDropPercent) {
+        plan.closuresSkipped = `board listed ${normalizedAll.length} jobs vs ${activeBeforeCount} active (-${Math.round(
+          dropPercent
+        )}%, limit ${maxDropPercent}%)`;
+      } else {
+        for (const missing of missingJobs) {
+          if (missing.job.missedCrawls + 1 >= closeAfterMisses) {
+            plan.close.push(missing);
+          } else {
+            plan.missed.push(missing.job);
           }
         }
-        totalNewClosed += newClosedJobsForCompany;
-        jobsClosedByPlatform.set(
-          company.platform,
-          (jobsClosedByPlatform.get(company.platform) ?? 0) +
-            newClosedJobsForCompany
+      }
+
+      // Content changes on matched jobs. Unchanged listings are skipped by hash;
+      // only rows whose hash moved load their stored description to compare.
+      // Rows from before hashes were stored just get one: their text may have
+      // been normalized differently (e.g. Lever HTML), which isn't a change.
+      const changedContent = plan.seen.flatMap((entry) => {
+        if (!entry.listed) {
+          return [];
+        }
+        const contentHash = buildContentHash(entry.listed);
+        if (entry.existing.contentHash === null) {
+          entry.content = { contentHash, fields: [], storedDescription: null };
+          return [];
+        }
+        return entry.existing.contentHash === contentHash ? [] : [{ entry, listed: entry.listed, contentHash }];
+      });
+      if (changedContent.length > 0) {
+        const storedDescriptions = new Map(
+          (
+            await prisma.job.findMany({
+              where: { id: { in: changedContent.map(({ entry }) => entry.existing.id) } },
+              select: { id: true, descriptionText: true },
+            })
+          ).map((job) => [job.id, job.descriptionText])
         );
+        for (const { entry, listed, contentHash } of changedContent) {
+          const storedDescription = storedDescriptions.get(entry.existing.id) ?? null;
+          const fields: ContentUpdate["fields"] = [];
+          if (listed.title !== entry.existing.title) {
+            fields.push("title");
+          }
+          if ((listed.location ?? null) !== entry.existing.location) {
+            fields.push("location");
+          }
+          // Listings without descriptions (Taleo, Workable) keep the detail-page text
+          if (listed.descriptionText && listed.descriptionText !== storedDescription) {
+            fields.push("description");
+          }
+          entry.content = { contentHash, fields, storedDescription };
+        }
+      }
+
+      const diff = toCompanyDiff(company, normalizedAll.length, plan);
+      const reactivatedJobsForCompany = diff.reactivated.length;
+      const newClosedJobsForCompany = diff.closed.length;
+      let createdJobsForCompany = 0;
+
+      if (dryRunMode) {
+        createdJobsForCompany = plan.create.length;
+        dryRunDiffs.push(diff);
+        if (hasChanges(diff)) {
+          for (const line of formatCompanyDiff(diff)) {
+            console.log(line);
+          }
+        }
+      } else {
+        if (plan.closuresSkipped) {
+          console.log(`${company.name}: closures skipped - ${plan.closuresSkipped}`);
+        }
+
+        const events: JobEventInput[] = [];
+        for (const { existing, listed, externalId, content } of plan.seen) {
+          const updateData: Record<string, any> = {
+            lastSeenAt: new Date(),
+            status: "ACTIVE",
+          };
+          if (existing.missedCrawls > 0) {
+            updateData.missedCrawls = 0;
+          }
+          if (existing.status === "CLOSED") {
+            updateData.closedAt = null;
+            updateData.closeReason = null;
+            events.push({ jobId: existing.id, type: "REACTIVATED" });
+          }
+          if (externalId) {
+            updateData.externalId = externalId;
+            events.push({
+              jobId: existing.id,
+              type: "EXTERNAL_ID_REWRITTEN",
+              fromValue: existing.externalId,
+              toValue: externalId,
+            });
+          }
+          if (listed && rawPayloadChanged(existing.rawPayload, listed.rawPayload)) {
+            updateData.rawPayload = toRawPayload(listed.rawPayload);
+          }
+          if (listed && content) {
+            updateData.contentHash = content.contentHash;
+            if (content.fields.length > 0) {
+              const descriptionText = content.fields.includes("description")
+                ? listed.descriptionText
+                : content.storedDescription;
+              updateData.title = listed.title;
+              updateData.location = listed.location;
+              updateData.descriptionText = descriptionText;
+              if (content.fields.includes("description") && listed.requirementsText) {
+                updateData.requirementsText = listed.requirementsText;
+              }
+              updateData.employmentType = classifyEmploymentType({ ...listed, descriptionText });
+              updateData.locationType = detectLocationType({ ...listed, descriptionText });
+              Object.assign(updateData, resolveJobSalary({ ...listed, descriptionText }));
+            }
+            if (content.fields.includes("location")) {
+              updateData.locations = { deleteMany: {}, create: resolveJobLocations(listed) };
+            }
+            if (content.fields.includes("title")) {
+              events.push({
+                jobId: existing.id,
+                type: "TITLE_CHANGED",
+                fromValue: existing.title,
+                toValue: listed.title,
+              });
+            }
+            if (content.fields.includes("location")) {
+              events.push({
+                jobId: existing.id,
+                type: "LOCATION_CHANGED",
+                fromValue: existing.location,
+                toValue: listed.location,
+              });
+            }
+            if (content.fields.includes("description")) {
+              events.push({ jobId: existing.id, type: "DESCRIPTION_CHANGED" });
+            }
+          }
+          await prisma.job.update({
+            where: { id: existing.id },
+            data: updateData,
+          });
+        }
+
+        const details = detailsDisabled
+          ? new Map<string, JobDetails>()
+          : await fetchNewJobDetails(company, adapter, plan.create, fetchOptions);
+        for (const job of plan.create) {
+          try {
+            const created = await createJob(company, job, details.get(job.externalId));
+            events.push({ jobId: created.id, type: "CREATED" });
+            createdJobsForCompany += 1;
+          } catch (error) {
+            const target = uniqueViolationTarget(error);
+            if (target === null) {
+              throw error;
+            }
+            // Already stored under this externalId (e.g. by an overlapping run)
+            if (!target.includes("externalId")) {
+              console.error(
+                `Warning: Failed to create ${company.name} job ${job.externalId}: unique constraint on ${target}`
+              );
+            }
+          }
+        }
+
+        if (plan.missed.length > 0) {
+          await prisma.job.updateMany({
+            where: { id: { in: plan.missed.map((job) => job.id) } },
+            data: { missedCrawls: { increment: 1 } },
+          });
+        }
+
+        const closedAt = new Date();
+        const reasons = new Set(plan.close.map(({ reason }) => reason));
+        for (const closeReason of reasons) {
+          await prisma.job.updateMany({
+            where: {
+              id: {
+                in: plan.close.filter(({ reason }) => reason === closeReason).map(({ job }) => job.id),
+              },
+            },
+            data: { status: "CLOSED", closedAt, closeReason, missedCrawls: { increment: 1 } },
+          });
+        }
+        for (const { job, reason } of plan.close) {
+          events.push({ jobId: job.id, type: "CLOSED", toValue: reason });
+        }
+
+        // A closed listing would otherwise keep its active duplicates hidden
+        const closedOrReactivated = [
+          ...plan.close.map(({ job }) => job.id),
+          ...plan.seen.filter(({ existing }) => existing.status === "CLOSED").map(({ existing }) => existing.id),
+        ];
+        if (closedOrReactivated.length > 0) {
+          try {
+            await reassignClosedDedupeOwners(closedOrReactivated);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`Warning: Failed to reassign dedupe groups for ${company.name}: ${message}`);
+          }
+        }
+
+        // Written before merging, which may delete some of these rows
+        await recordJobEvents(crawlRunId, events);
+        await mergeCanonicalDuplicates(company, adapter, crawlRunId);
       }
 
+      const newJobsForCompany = createdJobsForCompany + reactivatedJobsForCompany;
+      totalCreated += createdJobsForCompany;
+      jobsCreatedByPlatform.set(
+        company.platform,
+        (jobsCreatedByPlatform.get(company.platform) ?? 0) + createdJobsForCompany
+      );
+      totalNewClosed += newClosedJobsForCompany;
+      jobsClosedByPlatform.set(
+        company.platform,
+        (jobsClosedByPlatform.get(company.platform) ?? 0) +
+          newClosedJobsForCompany
+      );
+
       totalJobs += normalizedAll.length;
       jobsFoundByPlatform.set(
         company.platform,
@@ -1755,13 +1011,17 @@ async function main() {
         (companiesByPlatform.get(company.platform) ?? 0) + 1
       );
       // Calculate total closed jobs for this company
-      const totalClosedJobs = await prisma.job.count({
-        where: {
-          companyId: company.id,
-          sourcePlatform: company.platform as any,
-          status: "CLOSED",
-        },
-      });
+      const totalClosedJobs = dryRunMode
+        ? existingJobs.filter((job) => job.status === "CLOSED").length +
+          newClosedJobsForCompany -
+          reactivatedJobsForCompany
+        : await prisma.job.count({
+            where: {
+              companyId: company.id,
+              sourcePlatform: company.platform as any,
+              status: "CLOSED",
+            },
+          });
       
       totalCurrentlyClosed += totalClosedJobs;
       
@@ -1780,9 +1040,24 @@ async function main() {
         )}${status.padEnd(12)}${totalLabel.padEnd(18)}${newLabel.padEnd(18)}${totalClosedLabel.padEnd(18)}${newClosedLabel}`
       );
 
-      // Add adaptive delay between Workable companies to avoid rate limiting
-      if (company.platform === "WORKABLE") {
-        const delay = getWorkableDelay();
+      if (!dryRunMode) {
+        await recordCompanyResult(crawlRunId, {
+          companyId: company.id,
+          platform: company.platform,
+          success: true,
+          jobsFound: normalizedAll.length,
+          jobsCreated: createdJobsForCompany,
+          jobsReactivated: reactivatedJobsForCompany,
+          jobsClosed: newClosedJobsForCompany,
+          errorMessage: null,
+          startedAt: companyStartedAt,
+          finishedAt: new Date(),
+        });
+      }
+
+      // Per-platform politeness delay (e.g. Workable's adaptive rate limiting)
+      const delay = replayMode ? 0 : adapter.getCompanyDelay?.() ?? 0;
+      if (delay > 0) {
         await sleep(delay);
       }
     } catch (error) {
@@ -1794,20 +1069,65 @@ async function main() {
         console.error(`  Stack: ${stack}`);
       }
 
+      if (!dryRunMode) {
+        await recordCompanyResult(crawlRunId, {
+          companyId: company.id,
+          platform: company.platform,
+          success: false,
+          jobsFound: 0,
+          jobsCreated: 0,
+          jobsReactivated: 0,
+          jobsClosed: 0,
+          errorMessage: message,
+          startedAt: companyStartedAt,
+          finishedAt: new Date(),
+        });
+      }
+
       // If we hit a rate limit, add extra cooldown before next company
-      if (company.platform === "WORKABLE" && message.includes('429')) {
-        const cooldown = 10000 + (workableRateLimitHits * 2000); // 10s base + 2s per hit
+      const cooldown = replayMode ? 0 : getAdapter(company)?.getErrorCooldown?.(message) ?? 0;
+      if (cooldown > 0) {
         console.log(`  Cooling down for ${cooldown / 1000}s after rate limit...`);
         await sleep(cooldown);
       }
     }
+  };
+
+  // Each company's requests are filed under its own directory in --record/--replay mode
+  await runWorkerPool(
+    supportedCompanies,
+    (company) => withHttpScope(getCompanyScope(company), () => crawlCompany(company)),
+    {
+      concurrency,
+      getGroup: (company) => getAdapter(company)?.platform ?? company.platform,
+      getGroupLimit: (platform) =>
+        atsAdapters.find((adapter) => adapter.platform === platform)?.maxConcurrentCompanies,
+    }
+  );
+
+  await finishCrawlRun(crawlRunId);
+
+  if (!dryRunMode) {
+    try {
+      const pruned = await pruneJobDetailCache();
+      if (pruned > 0) {
+        console.log(`Pruned ${pruned} expired job detail cache entries`);
+      }
+    } catch (error) {
+      console.error(`Warning: Failed to prune job detail cache: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (dryRunMode) {
+    writeDiffReport(dryRunReportPath, dryRunDiffs);
+    console.log(`Dry run diff written to ${dryRunReportPath}`);
   }
 
   const durationMs = Date.now() - startedAt;
   const avgMsPerJob = totalJobs > 0 ? Math.round(durationMs / totalJobs) : 0;
 
   console.log("");
-  console.log("Crawl summary");
+  console.log(dryRunMode ? "Crawl summary (dry run, nothing written)" : "Crawl summary");
   console.log(
     "+------------------------------+---------------------------+"
   );
@@ -1907,9 +1227,9 @@ async function backupCompaniesToCSV() {
       orderBy: { name: "asc" },
     });
 
-    const headers = ["id", "name", "platform", "boardUrl", "createdAt", "updatedAt", "firstCrawledAt"];
+    const headers = ["id", "name", "platform", "boardUrl", "createdAt", "updatedAt", "firstCrawledAt", "lastCrawledAt"];
     const rows = (companies as Array<
-      (typeof companies)[number] & { firstCrawledAt?: Date | null }
+      (typeof companies)[number] & { firstCrawledAt?: Date | null; lastCrawledAt?: Date | null }
     >).map((row) => [
       row.id,
       row.name,
@@ -1918,6 +1238,7 @@ async function backupCompaniesToCSV() {
       row.createdAt.toISOString(),
       row.updatedAt.toISOString(),
       row.firstCrawledAt ? row.firstCrawledAt.toISOString() : "",
+      row.lastCrawledAt ? row.lastCrawledAt.toISOString() : "",
     ]);
 
     const escapeCsvField = (field: string) => {
@@ -1947,8 +1268,10 @@ async function backupCompaniesToCSV() {
 }
 
 main()
-  .catch((error) => {
-    console.error(`Crawler failed: ${error instanceof Error ? error.message : error}`);
+  .catch(async (error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Crawler failed: ${message}`);
+    await failActiveCrawlRun(message);
     process.exitCode = 1;
   })
   .finally(async () => {
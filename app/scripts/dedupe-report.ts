@@ -0,0 +1,74 @@
+import { prisma } from "../src/lib/prisma";
+
+type JobSummary = {
+  id: string;
+  title: string;
+  location: string | null;
+  sourcePlatform: string;
+  status: string;
+  jobUrl: string;
+  company: { name: string };
+};
+
+function describe(job: JobSummary): string {
+  return `[${job.sourcePlatform} ${job.status}] ${job.company.name} - ${job.title} (${
+    job.location ?? "no location"
+  }) ${job.jobUrl}`;
+}
+
+async function main() {
+  const companyArg = process.argv.find((arg) => arg.startsWith("--company="));
+  const companyFilter = companyArg ? companyArg.replace("--company=", "").trim() : "";
+  const limitArg = process.argv.find((arg) => arg.startsWith("--limit="));
+  const limit = limitArg ? Number.parseInt(limitArg.replace("--limit=", ""), 10) || 100 : 100;
+
+  const select = {
+    id: true,
+    title: true,
+    location: true,
+    sourcePlatform: true,
+    status: true,
+    jobUrl: true,
+    company: { select: { name: true } },
+  } as const;
+
+  // Groups are keyed by the visible job that the duplicates were linked to
+  const groups = await prisma.job.findMany({
+    where: {
+      duplicates: { some: {} },
+      ...(companyFilter
+        ? { company: { name: { contains: companyFilter, mode: "insensitive" as const } } }
+        : {}),
+    },
+    select: {
+      ...select,
+      duplicates: { select: select, orderBy: { createdAt: "asc" } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+
+  const totalGroups = await prisma.job.count({ where: { duplicates: { some: {} } } });
+  const totalLinked = await prisma.job.count({ where: { duplicateOfId: { not: null } } });
+
+  for (const group of groups) {
+    console.log(describe(group));
+    for (const duplicate of group.duplicates) {
+      console.log(`  └ ${describe(duplicate)}`);
+    }
+  }
+
+  console.log("");
+  console.log(
+    `Showing ${groups.length} of ${totalGroups} merged groups (${totalLinked} postings linked to another listing).`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(`Dedupe report failed: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
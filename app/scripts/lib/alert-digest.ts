@@ -0,0 +1,105 @@
+import type { AlertFrequency } from "../../src/lib/firestore";
+import { formatSalaryRange, type SalaryFields } from "../../src/lib/salary";
+import type { MailMessage } from "./mailer";
+
+export type DigestJob = SalaryFields & {
+  title: string;
+  location: string | null;
+  jobUrl: string;
+  postedAt: Date | null;
+  company: { name: string };
+};
+
+export type DigestInput = {
+  tableName: string;
+  frequency: Exclude<AlertFrequency, "off">;
+  jobs: DigestJob[];
+  // Matches in the window; more than jobs.length when the list was capped
+  total: number;
+  // Base URL of the web app, for the "view all" link
+  appUrl: string;
+};
+
+const FREQUENCY_LABELS: Record<DigestInput["frequency"], string> = {
+  instant: "New jobs",
+  daily: "Daily digest",
+  weekly: "Weekly digest",
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+// "Stripe · New York, NY · $120K – $150K /yr · Oct 19"
+function jobDetails(job: DigestJob): string[] {
+  return [
+    job.company.name,
+    job.location,
+    formatSalaryRange(job),
+    job.postedAt ? formatDate(job.postedAt) : null,
+  ].filter((part): part is string => Boolean(part));
+}
+
+/**
+ * Alert email for one custom table: subject plus an HTML body (inline styles
+ * only, since mail clients drop <style>) and a plain-text fallback.
+ */
+export function renderAlertDigest(input: DigestInput): Omit<MailMessage, "to"> {
+  const { tableName, jobs, total } = input;
+  const label = FREQUENCY_LABELS[input.frequency];
+  const tablesUrl = `${input.appUrl.replace(/\/+$/, "")}/custom-tables`;
+  const heading = `${total} new ${total === 1 ? "job" : "jobs"} for ${tableName}`;
+  const more = total - jobs.length;
+
+  const rows = jobs
+    .map(
+      (job) => `
+        <tr>
+          <td style="padding:12px 0;border-bottom:1px solid #e5e7eb;">
+            <a href="${escapeHtml(job.jobUrl)}" style="color:#2563eb;font-size:15px;font-weight:600;text-decoration:none;">${escapeHtml(job.title)}</a>
+            <div style="color:#4b5563;font-size:13px;margin-top:4px;">${jobDetails(job).map(escapeHtml).join(" &middot; ")}</div>
+          </td>
+        </tr>`
+    )
+    .join("");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:640px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;padding:24px;">
+      <tr>
+        <td>
+          <div style="color:#6b7280;font-size:12px;text-transform:uppercase;letter-spacing:0.05em;">${escapeHtml(label)}</div>
+          <h1 style="color:#111827;font-size:20px;margin:4px 0 16px;">${escapeHtml(heading)}</h1>
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0">${rows}
+          </table>
+          ${more > 0 ? `<p style="color:#4b5563;font-size:13px;">…and ${more} more.</p>` : ""}
+          <p style="margin-top:20px;"><a href="${escapeHtml(tablesUrl)}" style="color:#2563eb;font-size:14px;">View all in ${escapeHtml(tableName)}</a></p>
+          <p style="color:#9ca3af;font-size:12px;margin-top:24px;">You get this email because alerts are on for this table. Turn them off from the table's alert setting.</p>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>
+`;
+
+  const text = [
+    `${label}: ${heading}`,
+    "",
+    ...jobs.flatMap((job) => [job.title, `  ${jobDetails(job).join(" · ")}`, `  ${job.jobUrl}`, ""]),
+    ...(more > 0 ? [`...and ${more} more.`, ""] : []),
+    `View all: ${tablesUrl}`,
+    "",
+  ].join("\n");
+
+  return { subject: heading, html, text };
+}
@@ -0,0 +1,46 @@
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { getFirebaseAdminApp } from "../../src/lib/firebase-admin";
+import type { AlertFrequency, CustomTable } from "../../src/lib/firestore";
+
+// The custom table fields an alert needs
+export type AlertTable = Pick<
+  CustomTable,
+  | "id"
+  | "name"
+  | "titleKeywords"
+  | "locationKeywords"
+  | "companyFilter"
+  | "alertFrequency"
+  | "alertEmail"
+  | "lastAlertedAt"
+>;
+
+// All tables with alerts switched on. Alerts read and update every user's
+// tables, which the Firestore rules only allow with admin credentials.
+export async function getAlertingTables(): Promise<AlertTable[]> {
+  const snapshot = await getFirestore(getFirebaseAdminApp())
+    .collection("customTables")
+    .where("alertFrequency", "in", ["instant", "daily", "weekly"])
+    .get();
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      name: data.name,
+      titleKeywords: data.titleKeywords || [],
+      locationKeywords: data.locationKeywords || [],
+      companyFilter: data.companyFilter || "",
+      alertFrequency: data.alertFrequency as AlertFrequency,
+      alertEmail: data.alertEmail || null,
+      lastAlertedAt: data.lastAlertedAt?.toDate() || null,
+    };
+  });
+}
+
+// Record that a table's alert was evaluated up to `at`
+export async function markTableAlerted(tableId: string, at: Date): Promise<void> {
+  await getFirestore(getFirebaseAdminApp())
+    .collection("customTables")
+    .doc(tableId)
+    .update({ lastAlertedAt: Timestamp.fromDate(at) });
+}
@@ -0,0 +1,20 @@
+import { createHash } from "crypto";
+
+export type JobContent = {
+  title: string;
+  location?: string | null;
+  descriptionText?: string | null;
+};
+
+/**
+ * SHA-256 of the fields a board listing provides. Computed from the listing
+ * itself (not detail-page fetches), so a recrawl of an unchanged posting
+ * produces the same hash and the row can be skipped.
+ */
+export function buildContentHash(job: JobContent): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([job.title.trim(), job.location?.trim() ?? null, job.descriptionText?.trim() ?? null])
+    )
+    .digest("hex");
+}
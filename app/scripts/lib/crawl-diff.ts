@@ -0,0 +1,98 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export type DiffJob = {
+  // Database ID; null for jobs that would be created
+  id: string | null;
+  externalId: string | null;
+  title: string;
+  location?: string | null;
+  jobUrl?: string;
+  // Close reason for closed jobs
+  reason?: string;
+  // Consecutive crawls missed, for jobs not closed yet
+  missedCrawls?: number;
+};
+
+// Changes a crawl made (or, with --dry-run, would make) to one company's jobs
+export type CompanyDiff = {
+  companyId: string;
+  company: string;
+  platform: string;
+  jobsFound: number;
+  created: DiffJob[];
+  reactivated: DiffJob[];
+  // Matched jobs whose title, location or description changed on the board
+  updated: Array<DiffJob & { fields: string[] }>;
+  closed: DiffJob[];
+  // Missing from the board but below the consecutive-miss threshold
+  missed: DiffJob[];
+  externalIdRewritten: Array<DiffJob & { from: string | null; to: string }>;
+  // Why closures were skipped (drop guard), if they were
+  closuresSkipped: string | null;
+};
+
+export function hasChanges(diff: CompanyDiff): boolean {
+  return (
+    diff.created.length > 0 ||
+    diff.reactivated.length > 0 ||
+    diff.updated.length > 0 ||
+    diff.closed.length > 0 ||
+    diff.missed.length > 0 ||
+    diff.externalIdRewritten.length > 0 ||
+    diff.closuresSkipped !== null
+  );
+}
+
+function describeJob(job: DiffJob): string {
+  return `${job.title}${job.location ? ` (${job.location})` : ""} [${job.externalId ?? "no id"}]`;
+}
+
+export function formatCompanyDiff(diff: CompanyDiff): string[] {
+  const lines = [
+    `${diff.company} (${diff.platform}): ${diff.jobsFound} on board, +${diff.created.length} created, ` +
+      `${diff.reactivated.length} reactivated, ${diff.updated.length} updated, -${diff.closed.length} closed, ` +
+      `${diff.externalIdRewritten.length} external IDs rewritten`,
+  ];
+  for (const job of diff.created) {
+    lines.push(`  + ${describeJob(job)}`);
+  }
+  for (const job of diff.reactivated) {
+    lines.push(`  ↺ ${describeJob(job)}`);
+  }
+  for (const job of diff.updated) {
+    lines.push(`  * ${describeJob(job)} ${job.fields.join(", ")} changed`);
+  }
+  if (diff.closuresSkipped) {
+    lines.push(`  ! closures skipped: ${diff.closuresSkipped}`);
+  }
+  for (const job of diff.closed) {
+    lines.push(`  - ${describeJob(job)}${job.reason ? ` ${job.reason}` : ""}`);
+  }
+  for (const job of diff.missed) {
+    lines.push(`  ? ${describeJob(job)} missed ${job.missedCrawls} crawl(s), kept ACTIVE`);
+  }
+  for (const job of diff.externalIdRewritten) {
+    lines.push(`  ~ ${job.title}: ${job.from ?? "(none)"} → ${job.to}`);
+  }
+  return lines;
+}
+
+export function writeDiffReport(filePath: string, diffs: CompanyDiff[]) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const totals = {
+    companies: diffs.length,
+    created: diffs.reduce((sum, diff) => sum + diff.created.length, 0),
+    reactivated: diffs.reduce((sum, diff) => sum + diff.reactivated.length, 0),
+    updated: diffs.reduce((sum, diff) => sum + diff.updated.length, 0),
+    closed: diffs.reduce((sum, diff) => sum + diff.closed.length, 0),
+    missed: diffs.reduce((sum, diff) => sum + diff.missed.length, 0),
+    closuresSkipped: diffs.filter((diff) => diff.closuresSkipped !== null).length,
+    externalIdRewritten: diffs.reduce((sum, diff) => sum + diff.externalIdRewritten.length, 0),
+  };
+  fs.writeFileSync(
+    filePath,
+    JSON.stringify({ generatedAt: new Date().toISOString(), totals, companies: diffs }, null, 2),
+    "utf-8"
+  );
+}
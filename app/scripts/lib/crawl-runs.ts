@@ -0,0 +1,181 @@
+import type { SourcePlatform } from "@prisma/client";
+import { prisma } from "../../src/lib/prisma";
+
+export type CrawlRunOptions = {
+  args: string[];
+  atsFilter: string[];
+  companyFilter: string[];
+  newOnly: boolean;
+  repairWorkday: boolean;
+  companiesTotal: number;
+};
+
+export type CompanyCrawlResult = {
+  companyId: string;
+  platform: SourcePlatform;
+  success: boolean;
+  jobsFound: number;
+  jobsCreated: number;
+  jobsReactivated: number;
+  jobsClosed: number;
+  errorMessage: string | null;
+  startedAt: Date;
+  finishedAt: Date;
+};
+
+// Run currently being recorded, so a crash in main() can still be marked FAILED
+let activeRunId: string | null = null;
+
+// History is best effort: a failed write is logged but never aborts the crawl.
+function warn(action: string, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`Warning: Failed to ${action}: ${message}`);
+}
+
+export async function startCrawlRun(options: CrawlRunOptions): Promise<string | null> {
+  try {
+    const run = await prisma.crawlRun.create({
+      data: options,
+      select: { id: true },
+    });
+    activeRunId = run.id;
+    return run.id;
+  } catch (error) {
+    warn("record crawl run", error);
+    return null;
+  }
+}
+
+export type ResumableCrawlRun = {
+  id: string;
+  args: string[];
+  startedAt: Date;
+  // Companies with a result row in the run; these are skipped on resume
+  completedCompanyIds: Set<string>;
+};
+
+/**
+ * Finds a run that never finished cleanly: the given ID, or else the most
+ * recent run still RUNNING (process killed) or FAILED (crashed in main()).
+ * Only companies that succeeded count as done; failed ones are crawled again.
+ */
+export async function findResumableCrawlRun(runId?: string): Promise<ResumableCrawlRun | null> {
+  const run = await prisma.crawlRun.findFirst({
+    where: runId ? { id: runId } : { status: { in: ["RUNNING", "FAILED"] } },
+    orderBy: { startedAt: "desc" },
+    select: {
+      id: true,
+      status: true,
+      args: true,
+      startedAt: true,
+      results: { where: { success: true }, select: { companyId: true } },
+    },
+  });
+  if (!run || run.status === "SUCCEEDED") {
+    return null;
+  }
+  return {
+    id: run.id,
+    args: run.args,
+    startedAt: run.startedAt,
+    completedCompanyIds: new Set(run.results.map((result) => result.companyId)),
+  };
+}
+
+// Reopens an interrupted run so the remaining companies are recorded against it.
+// Failed results are dropped, since those companies are retried and record anew.
+export async function resumeCrawlRun(runId: string): Promise<string | null> {
+  try {
+    await prisma.$transaction([
+      prisma.crawlCompanyResult.deleteMany({ where: { crawlRunId: runId, success: false } }),
+      prisma.crawlRun.update({
+        where: { id: runId },
+        data: { status: "RUNNING", finishedAt: null, errorMessage: null },
+      }),
+    ]);
+    activeRunId = runId;
+    return runId;
+  } catch (error) {
+    warn("resume crawl run", error);
+    return null;
+  }
+}
+
+// Records the company's outcome (the run checkpoint) and stamps Company.lastCrawledAt.
+export async function recordCompanyResult(
+  runId: string | null,
+  result: CompanyCrawlResult
+): Promise<void> {
+  try {
+    await prisma.company.update({
+      where: { id: result.companyId },
+      data: { lastCrawledAt: result.finishedAt },
+    });
+  } catch (error) {
+    warn(`update last crawl time for company ${result.companyId}`, error);
+  }
+  if (!runId) {
+    return;
+  }
+  try {
+    await prisma.crawlCompanyResult.create({
+      data: {
+        ...result,
+        crawlRunId: runId,
+        durationMs: result.finishedAt.getTime() - result.startedAt.getTime(),
+      },
+    });
+  } catch (error) {
+    warn(`record crawl result for company ${result.companyId}`, error);
+  }
+}
+
+// Rolls the per-company rows up into the run totals and closes the run.
+export async function finishCrawlRun(
+  runId: string | null,
+  errorMessage: string | null = null
+): Promise<void> {
+  if (!runId) {
+    return;
+  }
+  try {
+    const [succeeded, failed, totals] = await Promise.all([
+      prisma.crawlCompanyResult.count({ where: { crawlRunId: runId, success: true } }),
+      prisma.crawlCompanyResult.count({ where: { crawlRunId: runId, success: false } }),
+      prisma.crawlCompanyResult.aggregate({
+        where: { crawlRunId: runId },
+        _sum: {
+          jobsFound: true,
+          jobsCreated: true,
+          jobsReactivated: true,
+          jobsClosed: true,
+        },
+      }),
+    ]);
+    await prisma.crawlRun.update({
+      where: { id: runId },
+      data: {
+        finishedAt: new Date(),
+        status: errorMessage ? "FAILED" : "SUCCEEDED",
+        errorMessage,
+        companiesSucceeded: succeeded,
+        companiesFailed: failed,
+        jobsFound: totals._sum.jobsFound ?? 0,
+        jobsCreated: totals._sum.jobsCreated ?? 0,
+        jobsReactivated: totals._sum.jobsReactivated ?? 0,
+        jobsClosed: totals._sum.jobsClosed ?? 0,
+      },
+    });
+  } catch (error) {
+    warn("finish crawl run", error);
+  } finally {
+    if (activeRunId === runId) {
+      activeRunId = null;
+    }
+  }
+}
+
+// Marks whatever run is still open as FAILED (used from the crawler's top-level catch).
+export async function failActiveCrawlRun(errorMessage: string): Promise<void> {
+  await finishCrawlRun(activeRunId, errorMessage);
+}
@@ -0,0 +1,127 @@
+import { createHash } from "crypto";
+import { prisma } from "../../src/lib/prisma";
+
+// Legal suffixes that differ between boards for the same employer ("Stripe" vs "Stripe, Inc.")
+const COMPANY_SUFFIXES =
+  /\b(the|inc|incorporated|llc|llp|ltd|limited|corp|corporation|co|company|plc|gmbh|ag|sa|bv|holdings)\b/g;
+
+function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function normalizeCompanyForDedupe(name: string): string {
+  return normalizeText(name).replace(COMPANY_SUFFIXES, " ").replace(/\s+/g, " ").trim();
+}
+
+// Multi-location strings are order-insensitive: "NYC; London" === "London; NYC"
+export function normalizeLocationForDedupe(location: string | null | undefined): string {
+  if (!location) {
+    return "";
+  }
+  return location
+    .split(/[;|/]| or /i)
+    .map(normalizeText)
+    .filter(Boolean)
+    .sort()
+    .join(";");
+}
+
+/**
+ * SHA-256 of the normalized company, title and location. Two postings with
+ * the same key are the same job listed on two boards (e.g. a company that
+ * moved from Lever to Greenhouse, or a Workday tenant with two career sites).
+ */
+export function buildDedupeKey(
+  companyName: string,
+  title: string,
+  location: string | null | undefined
+): string {
+  const parts = [
+    normalizeCompanyForDedupe(companyName),
+    normalizeText(title),
+    normalizeLocationForDedupe(location),
+  ];
+  return createHash("sha256").update(parts.join("|")).digest("hex");
+}
+
+export type DedupeResolution = {
+  // Set when the job is the first of its group
+  dedupeKey: string | null;
+  // Set when the job collides with an existing row and should be linked to it
+  duplicateOfId: string | null;
+};
+
+/**
+ * Decides how a new posting is stored: as the visible row for its dedupe
+ * group, or as a hidden duplicate linked to the row that already owns the key.
+ * Only an ACTIVE owner hides it; a closed owner gives up the key, so a role
+ * that is re-posted under a new requisition still shows up as open.
+ */
+export async function resolveDedupe(
+  companyName: string,
+  title: string,
+  location: string | null | undefined
+): Promise<DedupeResolution> {
+  const dedupeKey = buildDedupeKey(companyName, title, location);
+  const existing = await prisma.job.findUnique({
+    where: { dedupeKey },
+    select: { id: true, status: true },
+  });
+  if (existing?.status === "ACTIVE") {
+    return { dedupeKey: null, duplicateOfId: existing.id };
+  }
+  if (existing) {
+    await prisma.job.update({ where: { id: existing.id }, data: { dedupeKey: null } });
+  }
+  return { dedupeKey, duplicateOfId: null };
+}
+
+/**
+ * Keeps dedupe groups visible once their listed row closes. For each CLOSED
+ * owner among `jobIds` (or owning one of them, e.g. a reactivated duplicate),
+ * the oldest ACTIVE duplicate takes over the key and the other active
+ * duplicates are relinked to it; closed duplicates stay with the old owner.
+ * Returns the number of groups handed over.
+ */
+export async function reassignClosedDedupeOwners(jobIds?: string[]): Promise<number> {
+  const owners = await prisma.job.findMany({
+    where: {
+      status: "CLOSED",
+      duplicates: { some: { status: "ACTIVE" } },
+      ...(jobIds
+        ? { OR: [{ id: { in: jobIds } }, { duplicates: { some: { id: { in: jobIds } } } }] }
+        : {}),
+    },
+    select: {
+      id: true,
+      dedupeKey: true,
+      duplicates: {
+        where: { status: "ACTIVE" },
+        select: { id: true },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      },
+    },
+  });
+
+  for (const owner of owners) {
+    const [promoted, ...rest] = owner.duplicates;
+    // The key is unique, so the old owner releases it first
+    await prisma.$transaction([
+      prisma.job.update({ where: { id: owner.id }, data: { dedupeKey: null } }),
+      prisma.job.update({
+        where: { id: promoted.id },
+        data: { dedupeKey: owner.dedupeKey, duplicateOfId: null },
+      }),
+      prisma.job.updateMany({
+        where: { id: { in: rest.map((job) => job.id) } },
+        data: { duplicateOfId: promoted.id },
+      }),
+    ]);
+  }
+  return owners.length;
+}
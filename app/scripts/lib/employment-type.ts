@@ -0,0 +1,68 @@
+import type { EmploymentType } from "@prisma/client";
+
+export type EmploymentTypeInput = {
+  title: string;
+  descriptionText?: string | null;
+  // Raw employment type reported by the ATS (Lever commitment, Workable type, ...)
+  employmentTypeHint?: string | null;
+};
+
+const INTERN_TITLE =
+  /\b(intern|interns|internship|internships|co-?op|apprentice|apprenticeship|werkstudent|working student|summer (analyst|associate|student))\b/i;
+const NEW_GRAD_TITLE =
+  /\b(new grad|new graduate|recent grad|recent graduate|university grad|graduate program|graduate scheme|grad program|entry[- ]level|early career|campus hire|university hire|20\d{2} (start|graduate|grad))\b/i;
+// Titles for roles that are neither internships nor regular full-time positions
+const OTHER_TITLE = /\b(part[- ]time|contract|contractor|temporary|temp|freelance|seasonal)\b/i;
+
+// Description phrases are only trusted when they describe the role itself:
+// "previous internship experience" must not turn a senior role into an internship.
+const INTERN_DESCRIPTION =
+  /\b(this|our|the) (paid |summer |fall |spring |winter )*(internship|co-?op)( program| position| role)?\b (is|will|runs|offers)/i;
+const NEW_GRAD_DESCRIPTION =
+  /\b(new grad(uate)?|early career|university graduate) (program|role|position|hire)\b/i;
+
+const INTERN_HINT = /intern|co-?op|trainee|apprentice|student/i;
+const NEW_GRAD_HINT = /new grad|graduate|entry/i;
+const FULL_TIME_HINT = /full|permanent|regular/i;
+const OTHER_HINT = /part|contract|temporary|temp|freelance|seasonal/i;
+
+/**
+ * Classifies a posting as INTERN / NEW_GRAD / FULL_TIME. The title wins over
+ * the ATS hint because ATSs commonly label internships "Full-time", and the
+ * description is only used for explicit phrases. Part-time, contract and
+ * temporary roles stay UNKNOWN.
+ */
+export function classifyEmploymentType(job: EmploymentTypeInput): EmploymentType {
+  const title = job.title ?? "";
+  const hint = job.employmentTypeHint?.trim() ?? "";
+  const description = job.descriptionText ?? "";
+
+  if (INTERN_TITLE.test(title)) {
+    return "INTERN";
+  }
+  if (NEW_GRAD_TITLE.test(title)) {
+    return "NEW_GRAD";
+  }
+  if (hint && INTERN_HINT.test(hint)) {
+    return "INTERN";
+  }
+  if (hint && NEW_GRAD_HINT.test(hint)) {
+    return "NEW_GRAD";
+  }
+  if (INTERN_DESCRIPTION.test(description)) {
+    return "INTERN";
+  }
+  if (NEW_GRAD_DESCRIPTION.test(description)) {
+    return "NEW_GRAD";
+  }
+  if (OTHER_TITLE.test(title)) {
+    return "UNKNOWN";
+  }
+  if (hint && FULL_TIME_HINT.test(hint)) {
+    return "FULL_TIME";
+  }
+  if (hint && OTHER_HINT.test(hint)) {
+    return "UNKNOWN";
+  }
+  return "FULL_TIME";
+}
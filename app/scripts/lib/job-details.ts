@@ -0,0 +1,94 @@
+import { prisma } from "../../src/lib/prisma";
+import type { AtsAdapter, Company, FetchOptions, NormalizedJob } from "../ats";
+import { buildContentHash } from "./content-hash";
+import { runWorkerPool } from "./worker-pool";
+
+const DEFAULT_DETAIL_CONCURRENCY = 4;
+// Cached details older than this are dropped by pruneJobDetailCache
+const DETAIL_CACHE_TTL_DAYS = 30;
+
+export type JobDetails = Partial<NormalizedJob>;
+
+/**
+ * Detail-fetch stage for a company's newly seen jobs. Pages are fetched a few
+ * at a time (fetchWithRetry's per-host limits still apply on top), and results
+ * are cached by the listing's content hash, so a posting that comes back
+ * unchanged - after a failed insert, a cleared table, a replayed crawl -
+ * isn't fetched again. Returns details keyed by externalId.
+ */
+export async function fetchNewJobDetails(
+  company: Company,
+  adapter: AtsAdapter,
+  jobs: NormalizedJob[],
+  options: FetchOptions
+): Promise<Map<string, JobDetails>> {
+  const details = new Map<string, JobDetails>();
+  const fetchJobDetails = adapter.fetchJobDetails;
+  if (!fetchJobDetails || jobs.length === 0) {
+    return details;
+  }
+
+  const hashes = new Map(jobs.map((job) => [job.externalId, buildContentHash(job)]));
+  const cached = await prisma.jobDetailCache.findMany({
+    where: { sourcePlatform: company.platform, externalId: { in: Array.from(hashes.keys()) } },
+  });
+  for (const entry of cached) {
+    if (hashes.get(entry.externalId) === entry.contentHash) {
+      details.set(entry.externalId, {
+        descriptionText: entry.descriptionText,
+        requirementsText: entry.requirementsText,
+      });
+    }
+  }
+
+  const toFetch = jobs.filter((job) => !details.has(job.externalId));
+  const fetched: Array<{ job: NormalizedJob; result: JobDetails }> = [];
+  await runWorkerPool(
+    toFetch,
+    async (job) => {
+      try {
+        const result = await fetchJobDetails(company, job, options);
+        if (result.descriptionText || result.requirementsText) {
+          details.set(job.externalId, result);
+          fetched.push({ job, result });
+        }
+      } catch (error) {
+        // A missing description never blocks inserting the job
+        if (options.debug) {
+          console.log(`  [DEBUG] Detail fetch failed for ${job.jobUrl}: ${error}`);
+        }
+      }
+    },
+    { concurrency: adapter.maxConcurrentDetails ?? DEFAULT_DETAIL_CONCURRENCY }
+  );
+
+  if (toFetch.length > 0) {
+    console.log(
+      `  Details: ${fetched.length}/${toFetch.length} fetched, ${jobs.length - toFetch.length} from cache`
+    );
+  }
+  if (fetched.length > 0) {
+    try {
+      await prisma.jobDetailCache.createMany({
+        data: fetched.map(({ job, result }) => ({
+          sourcePlatform: company.platform,
+          externalId: job.externalId,
+          contentHash: hashes.get(job.externalId) as string,
+          descriptionText: result.descriptionText ?? null,
+          requirementsText: result.requirementsText ?? null,
+        })),
+        skipDuplicates: true,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Warning: Failed to cache job details: ${message}`);
+    }
+  }
+  return details;
+}
+
+export async function pruneJobDetailCache(): Promise<number> {
+  const cutoff = new Date(Date.now() - DETAIL_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000);
+  const result = await prisma.jobDetailCache.deleteMany({ where: { fetchedAt: { lt: cutoff } } });
+  return result.count;
+}
@@ -0,0 +1,36 @@
+import type { JobEventType } from "@prisma/client";
+import { prisma } from "../../src/lib/prisma";
+
+export type JobEventInput = {
+  jobId: string;
+  type: JobEventType;
+  fromValue?: string | null;
+  toValue?: string | null;
+};
+
+/**
+ * Appends lifecycle events for jobs touched by a crawl. Like the crawl run
+ * history this is best effort: a failed write is logged, never fatal.
+ */
+export async function recordJobEvents(
+  crawlRunId: string | null,
+  events: JobEventInput[]
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+  try {
+    await prisma.jobEvent.createMany({
+      data: events.map((event) => ({
+        jobId: event.jobId,
+        type: event.type,
+        fromValue: event.fromValue ?? null,
+        toValue: event.toValue ?? null,
+        crawlRunId,
+      })),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Warning: Failed to record ${events.length} job events: ${message}`);
+  }
+}
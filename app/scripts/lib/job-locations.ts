@@ -0,0 +1,291 @@
+import type { NormalizedJob, NormalizedLocation } from "../ats";
+
+// A JobLocation row, minus its job
+export type ParsedLocation = {
+  city: string | null;
+  region: string | null;
+  countryCode: string | null;
+  isRemote: boolean;
+};
+
+const US_STATES: Record<string, string> = {
+  alabama: "AL", alaska: "AK", arizona: "AZ", arkansas: "AR", california: "CA",
+  colorado: "CO", connecticut: "CT", delaware: "DE", "district of columbia": "DC",
+  florida: "FL", georgia: "GA", hawaii: "HI", idaho: "ID", illinois: "IL",
+  indiana: "IN", iowa: "IA", kansas: "KS", kentucky: "KY", louisiana: "LA",
+  maine: "ME", maryland: "MD", massachusetts: "MA", michigan: "MI", minnesota: "MN",
+  mississippi: "MS", missouri: "MO", montana: "MT", nebraska: "NE", nevada: "NV",
+  "new hampshire": "NH", "new jersey": "NJ", "new mexico": "NM", "new york": "NY",
+  "north carolina": "NC", "north dakota": "ND", ohio: "OH", oklahoma: "OK",
+  oregon: "OR", pennsylvania: "PA", "rhode island": "RI", "south carolina": "SC",
+  "south dakota": "SD", tennessee: "TN", texas: "TX", utah: "UT", vermont: "VT",
+  virginia: "VA", washington: "WA", "west virginia": "WV", wisconsin: "WI",
+  wyoming: "WY", "puerto rico": "PR",
+};
+
+const CA_PROVINCES: Record<string, string> = {
+  alberta: "AB", "british columbia": "BC", manitoba: "MB", "new brunswick": "NB",
+  "newfoundland and labrador": "NL", "nova scotia": "NS", ontario: "ON",
+  "prince edward island": "PE", quebec: "QC", "québec": "QC", saskatchewan: "SK",
+  "northwest territories": "NT", nunavut: "NU", yukon: "YT",
+};
+
+const AU_STATES: Record<string, string> = {
+  "new south wales": "NSW", victoria: "VIC", queensland: "QLD", "western australia": "WA",
+  "south australia": "SA", tasmania: "TAS", "australian capital territory": "ACT",
+  "northern territory": "NT",
+};
+
+// Regions that get normalized to codes, by country
+const REGION_CODES: Record<string, Record<string, string>> = {
+  US: US_STATES,
+  CA: CA_PROVINCES,
+  AU: AU_STATES,
+};
+
+const COUNTRY_NAMES: Record<string, string> = {
+  "united states": "US", "united states of america": "US", usa: "US", "u.s.": "US",
+  "u.s.a.": "US", america: "US", "united kingdom": "GB", uk: "GB", "u.k.": "GB",
+  "great britain": "GB", england: "GB", scotland: "GB", wales: "GB",
+  "northern ireland": "GB", canada: "CA", mexico: "MX", brazil: "BR", argentina: "AR",
+  colombia: "CO", chile: "CL", peru: "PE", ireland: "IE", germany: "DE",
+  deutschland: "DE", france: "FR", spain: "ES", portugal: "PT", italy: "IT",
+  netherlands: "NL", "the netherlands": "NL", belgium: "BE", luxembourg: "LU",
+  switzerland: "CH", austria: "AT", denmark: "DK", sweden: "SE", norway: "NO",
+  finland: "FI", iceland: "IS", poland: "PL", "czech republic": "CZ", czechia: "CZ",
+  slovakia: "SK", hungary: "HU", romania: "RO", bulgaria: "BG", greece: "GR",
+  croatia: "HR", serbia: "RS", ukraine: "UA", estonia: "EE", latvia: "LV",
+  lithuania: "LT", turkey: "TR", "türkiye": "TR", israel: "IL",
+  "united arab emirates": "AE", uae: "AE", "saudi arabia": "SA", egypt: "EG",
+  "south africa": "ZA", nigeria: "NG", kenya: "KE", india: "IN", pakistan: "PK",
+  singapore: "SG", malaysia: "MY", indonesia: "ID", philippines: "PH", thailand: "TH",
+  vietnam: "VN", japan: "JP", "south korea": "KR", korea: "KR", china: "CN",
+  "hong kong": "HK", taiwan: "TW", australia: "AU", "new zealand": "NZ",
+};
+
+const COUNTRY_CODES = new Set(Object.values(COUNTRY_NAMES));
+
+// Cities commonly listed without a state or country
+const KNOWN_CITIES: Record<string, { region: string | null; countryCode: string }> = {
+  "new york": { region: "NY", countryCode: "US" },
+  "new york city": { region: "NY", countryCode: "US" },
+  nyc: { region: "NY", countryCode: "US" },
+  "san francisco": { region: "CA", countryCode: "US" },
+  "los angeles": { region: "CA", countryCode: "US" },
+  seattle: { region: "WA", countryCode: "US" },
+  boston: { region: "MA", countryCode: "US" },
+  chicago: { region: "IL", countryCode: "US" },
+  austin: { region: "TX", countryCode: "US" },
+  denver: { region: "CO", countryCode: "US" },
+  atlanta: { region: "GA", countryCode: "US" },
+  london: { region: null, countryCode: "GB" },
+  dublin: { region: null, countryCode: "IE" },
+  berlin: { region: null, countryCode: "DE" },
+  munich: { region: null, countryCode: "DE" },
+  paris: { region: null, countryCode: "FR" },
+  amsterdam: { region: null, countryCode: "NL" },
+  madrid: { region: null, countryCode: "ES" },
+  barcelona: { region: null, countryCode: "ES" },
+  lisbon: { region: null, countryCode: "PT" },
+  stockholm: { region: null, countryCode: "SE" },
+  zurich: { region: null, countryCode: "CH" },
+  warsaw: { region: null, countryCode: "PL" },
+  toronto: { region: "ON", countryCode: "CA" },
+  vancouver: { region: "BC", countryCode: "CA" },
+  montreal: { region: "QC", countryCode: "CA" },
+  "tel aviv": { region: null, countryCode: "IL" },
+  bangalore: { region: null, countryCode: "IN" },
+  bengaluru: { region: null, countryCode: "IN" },
+  singapore: { region: null, countryCode: "SG" },
+  tokyo: { region: null, countryCode: "JP" },
+  sydney: { region: "NSW", countryCode: "AU" },
+  melbourne: { region: "VIC", countryCode: "AU" },
+};
+
+const REMOTE = /\b(remote|anywhere|work from home|wfh|virtual|distributed)\b/i;
+// Workplace words that say nothing about where the job is
+const WORKPLACE_WORDS =
+  /\b(remote|anywhere|work from home|wfh|virtual|distributed|hybrid|on-?site|in[- ]office|fully|only|based(?: in)?)\b/gi;
+// Areas wider than a country; kept only as the remote flag
+const MULTI_COUNTRY = /^(global|worldwide|international|emea|apac|latam|americas|europe|eu|north america)$/i;
+// Workday-style summaries like "3 Locations"
+const LOCATION_COUNT = /^\d+\s+locations?$/i;
+
+function toKey(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Structured ATS fields may carry any ISO code; free text only trusts codes we
+// know, so "Springfield, ZZ" doesn't invent a country
+function toCountryCode(value: string | null | undefined, anyCode = false): string | null {
+  if (!value) {
+    return null;
+  }
+  const key = toKey(value);
+  if (COUNTRY_NAMES[key]) {
+    return COUNTRY_NAMES[key];
+  }
+  const code = key.toUpperCase();
+  if (!/^[A-Z]{2}$/.test(code)) {
+    return null;
+  }
+  return anyCode || COUNTRY_CODES.has(code) ? code : null;
+}
+
+// State / province codes where the country has them, the trimmed name otherwise
+function normalizeRegion(countryCode: string | null, region: string | null | undefined): string | null {
+  const value = region?.trim();
+  if (!value) {
+    return null;
+  }
+  const codes = countryCode ? REGION_CODES[countryCode] : undefined;
+  if (!codes) {
+    return value;
+  }
+  const upper = value.toUpperCase();
+  if (Object.values(codes).includes(upper)) {
+    return upper;
+  }
+  return codes[toKey(value)] ?? value;
+}
+
+// Country for a region given without one ("Austin, TX", "Ontario")
+function findRegionCountry(region: string): { region: string; countryCode: string } | null {
+  const upper = region.trim().toUpperCase();
+  const key = toKey(region);
+  for (const [countryCode, codes] of Object.entries(REGION_CODES)) {
+    if (codes[key]) {
+      return { region: codes[key], countryCode };
+    }
+  }
+  // Bare codes are ambiguous across countries (WA, NT); US states win, as the most common form
+  for (const [countryCode, codes] of Object.entries(REGION_CODES)) {
+    if (Object.values(codes).includes(upper)) {
+      return { region: upper, countryCode };
+    }
+  }
+  return null;
+}
+
+function parseSegment(segment: string): ParsedLocation | null {
+  const isRemote = REMOTE.test(segment);
+  const cleaned = segment
+    .replace(WORKPLACE_WORDS, " ")
+    .replace(/[()[\]]/g, " ")
+    .replace(/\s+[-–—:]\s+|^\s*[-–—:]\s*|\s*[-–—:]\s*$/g, ", ")
+    .replace(/\s+/g, " ");
+  const parts = cleaned
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part && !MULTI_COUNTRY.test(part));
+
+  const location: ParsedLocation = { city: null, region: null, countryCode: null, isRemote };
+  if (parts.length === 0) {
+    return isRemote ? location : null;
+  }
+
+  // "City, Region, Country" (extra leading parts are neighbourhoods or sites)
+  if (parts.length >= 3) {
+    const countryCode = toCountryCode(parts[parts.length - 1]);
+    if (countryCode) {
+      location.countryCode = countryCode;
+      location.region = normalizeRegion(countryCode, parts[parts.length - 2]);
+      location.city = parts[parts.length - 3];
+      return location;
+    }
+  }
+
+  const last = parts[parts.length - 1];
+  const rest = parts.slice(0, -1);
+  const city = rest.length > 0 ? rest[rest.length - 1] : null;
+
+  // "US", "London, United Kingdom"; a two-letter code after a city is read as a
+  // state first ("Portland, OR"), since that is how US boards write it
+  const lastAsRegion = findRegionCountry(last);
+  const lastAsCountry = toCountryCode(last);
+  if (lastAsCountry && !(city && lastAsRegion && /^[A-Za-z]{2,3}$/.test(last.trim()))) {
+    location.countryCode = lastAsCountry;
+    location.city = city;
+    const known = city ? KNOWN_CITIES[toKey(city)] : undefined;
+    if (known && known.countryCode === lastAsCountry) {
+      location.region = known.region;
+    }
+    return location;
+  }
+  if (lastAsRegion) {
+    location.countryCode = lastAsRegion.countryCode;
+    location.region = lastAsRegion.region;
+    location.city = city;
+    return location;
+  }
+
+  const known = KNOWN_CITIES[toKey(last)];
+  if (known && rest.length === 0) {
+    location.city = last;
+    location.region = known.region;
+    location.countryCode = known.countryCode;
+    return location;
+  }
+
+  // Unrecognized: keep the text as city (and region) without guessing a country
+  if (rest.length > 0) {
+    location.city = city;
+    location.region = last;
+  } else {
+    location.city = last;
+  }
+  return location;
+}
+
+/**
+ * Splits a free-text location ("US - Remote; New York, NY; London") into one
+ * entry per place. Countries become ISO codes and US / Canadian / Australian
+ * regions become their codes, so filters can match on exact values instead
+ * of substrings ("US" no longer matches "Australia").
+ */
+export function parseLocations(location: string | null | undefined): ParsedLocation[] {
+  if (!location) {
+    return [];
+  }
+  const segments = location
+    .split(/\s*(?:;|\||\n|\s\/\s|\s+or\s+)\s*/i)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment && !LOCATION_COUNT.test(segment));
+  return dedupeLocations(segments.map(parseSegment).filter((parsed) => parsed !== null));
+}
+
+function fromStructured(location: NormalizedLocation): ParsedLocation | null {
+  const countryCode = toCountryCode(location.country, true);
+  const parsed: ParsedLocation = {
+    city: location.city?.trim() || null,
+    region: normalizeRegion(countryCode, location.region),
+    countryCode,
+    isRemote: Boolean(location.isRemote),
+  };
+  if (!parsed.city && !parsed.region && !parsed.countryCode && !parsed.isRemote) {
+    return null;
+  }
+  return parsed;
+}
+
+function dedupeLocations(locations: ParsedLocation[]): ParsedLocation[] {
+  const seen = new Set<string>();
+  return locations.filter((location) => {
+    const key = [location.city, location.region, location.countryCode, location.isRemote]
+      .map((value) => String(value ?? "").toLowerCase())
+      .join("|");
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// Structured ATS fields when the adapter has them, the parsed location string otherwise
+export function resolveJobLocations(job: Pick<NormalizedJob, "location" | "locations">): ParsedLocation[] {
+  const structured = (job.locations ?? [])
+    .map(fromStructured)
+    .filter((location) => location !== null);
+  return structured.length > 0 ? dedupeLocations(structured) : parseLocations(job.location);
+}
@@ -0,0 +1,73 @@
+import type { LocationType } from "@prisma/client";
+
+export type LocationTypeInput = {
+  location?: string | null;
+  descriptionText?: string | null;
+  // Workplace type reported by the ATS ("remote", "hybrid", "on_site", ...)
+  workplaceTypeHint?: string | null;
+};
+
+const HYBRID_LOCATION = /\bhybrid\b/i;
+const REMOTE_LOCATION =
+  /\b(remote|anywhere|work from home|wfh|virtual|telecommute|distributed)\b/i;
+const ONSITE_LOCATION = /\b(on-?site|in[- ]office|in[- ]person)\b/i;
+
+const HYBRID_DESCRIPTION =
+  /\b(hybrid (role|position|schedule|work|working|model|environment|arrangement)|this (role|position|job) is hybrid|\d (days?|x) (per|a|each) week in (the |our )?office)\b/i;
+const REMOTE_DESCRIPTION =
+  /\b((fully|100%|completely) remote|remote[- ]first|this (role|position|job) is (fully )?remote|remote (role|position|opportunity)|work from anywhere)\b/i;
+const ONSITE_DESCRIPTION =
+  /\b(this (role|position|job) is (fully |100% )?(on-?site|in[- ]office|in[- ]person)|(fully|100%) (on-?site|in[- ]office))\b/i;
+
+function fromHint(hint: string): LocationType | null {
+  const value = hint.trim().toLowerCase().replace(/[\s_-]+/g, "");
+  if (!value) {
+    return null;
+  }
+  if (value.includes("hybrid")) {
+    return "HYBRID";
+  }
+  if (value.includes("remote")) {
+    return "REMOTE";
+  }
+  if (value === "onsite" || value === "office" || value === "inoffice" || value === "inperson") {
+    return "ONSITE";
+  }
+  return null;
+}
+
+/**
+ * Derives REMOTE / HYBRID / ONSITE for a posting. Structured ATS fields win,
+ * then the location string, then explicit description phrases. A plain city
+ * is not treated as ONSITE (many of those boards are hybrid), so anything
+ * without a signal stays UNKNOWN.
+ */
+export function detectLocationType(job: LocationTypeInput): LocationType {
+  const hinted = job.workplaceTypeHint ? fromHint(job.workplaceTypeHint) : null;
+  if (hinted) {
+    return hinted;
+  }
+
+  const location = job.location ?? "";
+  if (HYBRID_LOCATION.test(location)) {
+    return "HYBRID";
+  }
+  if (REMOTE_LOCATION.test(location)) {
+    return "REMOTE";
+  }
+  if (ONSITE_LOCATION.test(location)) {
+    return "ONSITE";
+  }
+
+  const description = job.descriptionText ?? "";
+  if (HYBRID_DESCRIPTION.test(description)) {
+    return "HYBRID";
+  }
+  if (REMOTE_DESCRIPTION.test(description)) {
+    return "REMOTE";
+  }
+  if (ONSITE_DESCRIPTION.test(description)) {
+    return "ONSITE";
+  }
+  return "UNKNOWN";
+}
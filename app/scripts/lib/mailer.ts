@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import nodemailer, { type Transporter } from "nodemailer";
+import * as path from "path";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+// Anything that can deliver a message; send-alerts only talks to this
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  // Implicit TLS (port 465). Otherwise STARTTLS is used when the server offers
+  // it, and required when credentials are set.
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+};
+
+const DEFAULT_SMTP_TIMEOUT_MS = 30_000;
+
+/**
+ * Sends through nodemailer's SMTP transport. Credentials are never sent over
+ * an unencrypted connection: without implicit TLS, a server that doesn't offer
+ * STARTTLS fails the send.
+ */
+export class SmtpMailer implements Mailer {
+  private readonly transport: Transporter;
+
+  constructor(private readonly options: SmtpOptions) {
+    const timeout = options.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS;
+    const hasCredentials = Boolean(options.user && options.pass);
+    this.transport = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      requireTLS: !options.secure && hasCredentials,
+      auth: hasCredentials ? { user: options.user as string, pass: options.pass as string } : undefined,
+      connectionTimeout: timeout,
+      greetingTimeout: timeout,
+      socketTimeout: timeout,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.sendMail({ from: this.options.from, ...message });
+  }
+}
+
+/**
+ * Writes each message as an .html file instead of sending it (with
+ * `--dry-run`, or MAILER=file), for checking digests without an SMTP server.
+ */
+export class FileMailer implements Mailer {
+  private count = 0;
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    fs.mkdirSync(this.directory, { recursive: true });
+    const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]+/g, "_");
+    const file = path.join(this.directory, `${Date.now()}-${++this.count}-${safeTo}.html`);
+    fs.writeFileSync(file, message.html);
+    console.log(`  Wrote "${message.subject}" for ${message.to} to ${file}`);
+  }
+}
+
+/**
+ * Mailer from the environment: MAILER=smtp (default) reads SMTP_HOST,
+ * SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS and ALERTS_FROM; MAILER=file
+ * writes to ALERTS_OUTPUT_DIR.
+ */
+export function createMailerFromEnv(env: NodeJS.ProcessEnv = process.env): Mailer {
+  const kind = (env.MAILER || "smtp").toLowerCase();
+  if (kind === "file") {
+    return new FileMailer(env.ALERTS_OUTPUT_DIR || "alert-emails");
+  }
+  if (kind !== "smtp") {
+    throw new Error(`Unknown MAILER "${env.MAILER}" (expected smtp or file)`);
+  }
+  if (!env.SMTP_HOST) {
+    throw new Error("SMTP_HOST is not set");
+  }
+  const secure = env.SMTP_SECURE === "true" || env.SMTP_SECURE === "1";
+  const port = env.SMTP_PORT ? Number.parseInt(env.SMTP_PORT, 10) : secure ? 465 : 587;
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new Error(`Invalid SMTP_PORT "${env.SMTP_PORT}"`);
+  }
+  return new SmtpMailer({
+    host: env.SMTP_HOST,
+    port,
+    secure,
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.ALERTS_FROM || "Job Alerts <alerts@localhost>",
+  });
+}
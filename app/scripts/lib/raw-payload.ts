@@ -0,0 +1,32 @@
+import type { Prisma } from "@prisma/client";
+
+// JSON with object keys sorted, so a payload read back from jsonb (which
+// reorders keys) compares equal to the same item freshly fetched from the ATS.
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Converts a raw ATS item into a value Prisma can store in `Job.rawPayload`
+ * (drops undefined fields, Dates become ISO strings).
+ */
+export function toRawPayload(raw: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(raw ?? null)) as Prisma.InputJsonValue;
+}
+
+export function rawPayloadChanged(stored: Prisma.JsonValue | null, raw: unknown): boolean {
+  if (stored === null || stored === undefined) {
+    return true;
+  }
+  return stableStringify(stored) !== stableStringify(toRawPayload(raw));
+}
@@ -0,0 +1,173 @@
+import type { NormalizedCompensation, NormalizedJob } from "../ats";
+import { stripHtmlTags } from "../ats/http";
+
+// Salary columns written on Job
+export type JobSalary = {
+  salaryMin: number | null;
+  salaryMax: number | null;
+  salaryCurrency: string | null;
+  salaryPeriod: string | null;
+  salaryAnnualMax: number | null;
+};
+
+const PERIODS_PER_YEAR: Record<string, number> = {
+  YEAR: 1,
+  MONTH: 12,
+  WEEK: 52,
+  DAY: 260,
+  HOUR: 2080,
+};
+
+const PERIOD_ALIASES: Record<string, string> = {
+  year: "YEAR", yr: "YEAR", annum: "YEAR", annual: "YEAR", annually: "YEAR", yearly: "YEAR",
+  month: "MONTH", mo: "MONTH", monthly: "MONTH",
+  week: "WEEK", wk: "WEEK", weekly: "WEEK",
+  day: "DAY", daily: "DAY",
+  hour: "HOUR", hr: "HOUR", hourly: "HOUR",
+};
+
+// Yearly pay outside this range is a misparse (a funding round, a stipend, a typo)
+const MIN_ANNUAL = 10_000;
+const MAX_ANNUAL = 5_000_000;
+
+const CURRENCY_CODES = "USD|CAD|GBP|EUR|AUD|NZD|CHF|SGD|INR";
+const CURRENCY_PREFIX = `(?:(?:US|CA|C|AU|A|NZ|S)?[$£€]|\\b(?:${CURRENCY_CODES})\\s?)`;
+const AMOUNT = "\\d{1,3}(?:,\\d{3})+(?:\\.\\d{1,2})?|\\d+(?:\\.\\d{1,2})?";
+// "$5M in funding", "$100+ million" aren't pay
+const NOT_PAY = "(?!\\s?(?:[mMbB]\\b|million|billion|\\+))";
+
+const SALARY_PATTERN = new RegExp(
+  `(?<prefix>${CURRENCY_PREFIX})?(?<min>${AMOUNT})(?<minK>[kK])?${NOT_PAY}` +
+    `(?:\\s*(?:-|–|—|to)\\s*(?:${CURRENCY_PREFIX})?(?<max>${AMOUNT})(?<maxK>[kK])?${NOT_PAY})?` +
+    `(?:\\s*(?<code>${CURRENCY_CODES})\\b)?` +
+    `(?:\\s*(?:per|an?|\\/)\\s*(?<per>year|annum|yr|month|mo|week|wk|day|hour|hr)\\b|\\s*(?<adverb>annually|yearly|monthly|weekly|daily|hourly)\\b)?`,
+  "g"
+);
+
+function toPeriod(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const upper = value.trim().toUpperCase();
+  if (PERIODS_PER_YEAR[upper]) {
+    return upper;
+  }
+  return PERIOD_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+function toCurrency(prefix: string | undefined, code: string | undefined): string | null {
+  if (code) {
+    return code;
+  }
+  const value = prefix?.trim().toUpperCase();
+  if (!value) {
+    return null;
+  }
+  if (/^[A-Z]{3}$/.test(value)) {
+    return value;
+  }
+  if (value.endsWith("£")) {
+    return "GBP";
+  }
+  if (value.endsWith("€")) {
+    return "EUR";
+  }
+  if (value.startsWith("CA") || value.startsWith("C")) {
+    return "CAD";
+  }
+  if (value.startsWith("AU") || value.startsWith("A")) {
+    return "AUD";
+  }
+  if (value.startsWith("NZ")) {
+    return "NZD";
+  }
+  if (value.startsWith("S")) {
+    return "SGD";
+  }
+  return "USD";
+}
+
+function toAmount(value: string, thousands: boolean): number {
+  const amount = Number.parseFloat(value.replace(/,/g, ""));
+  return thousands ? amount * 1000 : amount;
+}
+
+function toAnnual(amount: number | null, period: string | null): number | null {
+  if (amount === null || !period || !PERIODS_PER_YEAR[period]) {
+    return null;
+  }
+  return Math.round(amount * PERIODS_PER_YEAR[period]);
+}
+
+/**
+ * Finds the first pay range in a description ("$120,000 - $150,000",
+ * "$45–55/hr", "USD 90K to 110K annually"). A currency is required, and a
+ * single amount needs an explicit period, so stray figures aren't read as pay.
+ * Greenhouse content is entity-encoded HTML, hence the double decode.
+ */
+export function parseSalaryFromText(text: string | null | undefined): NormalizedCompensation | null {
+  if (!text) {
+    return null;
+  }
+  const plain = stripHtmlTags(stripHtmlTags(text));
+  for (const match of plain.matchAll(SALARY_PATTERN)) {
+    const groups = match.groups ?? {};
+    const currency = toCurrency(groups.prefix, groups.code);
+    if (!currency) {
+      continue;
+    }
+    // "$120-150K": the K on the top of the range applies to both ends
+    const maxK = Boolean(groups.maxK);
+    let min = toAmount(groups.min, Boolean(groups.minK));
+    const max = groups.max ? toAmount(groups.max, maxK) : null;
+    if (max !== null && maxK && !groups.minK && min < 1000) {
+      min *= 1000;
+    }
+    if (max !== null && max < min) {
+      continue;
+    }
+
+    let period = toPeriod(groups.per ?? groups.adverb);
+    if (!period) {
+      if (max === null) {
+        continue;
+      }
+      period = max >= MIN_ANNUAL ? "YEAR" : max <= 500 ? "HOUR" : null;
+    }
+    const annual = toAnnual(max ?? min, period);
+    if (annual === null || annual < MIN_ANNUAL || annual > MAX_ANNUAL) {
+      continue;
+    }
+    return { min, max, currency, period, summary: match[0].trim() };
+  }
+  return null;
+}
+
+/**
+ * Salary columns for a job: the ATS's structured compensation when it has
+ * numbers, otherwise whatever the description text states.
+ */
+export function resolveJobSalary(job: Pick<NormalizedJob, "compensation" | "descriptionText">): JobSalary {
+  const structured = job.compensation;
+  const compensation =
+    structured && (structured.min !== null || structured.max !== null)
+      ? structured
+      : parseSalaryFromText(job.descriptionText);
+  if (!compensation) {
+    return {
+      salaryMin: null,
+      salaryMax: null,
+      salaryCurrency: null,
+      salaryPeriod: null,
+      salaryAnnualMax: null,
+    };
+  }
+  const period = toPeriod(compensation.period);
+  return {
+    salaryMin: compensation.min,
+    salaryMax: compensation.max,
+    salaryCurrency: compensation.currency?.toUpperCase() ?? null,
+    salaryPeriod: period,
+    salaryAnnualMax: toAnnual(compensation.max ?? compensation.min, period),
+  };
+}
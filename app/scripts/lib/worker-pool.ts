@@ -0,0 +1,68 @@
+export type WorkerPoolOptions<T> = {
+  // Items processed at once
+  concurrency: number;
+  // Optional grouping with its own cap, e.g. at most 3 Workday tenants at a time
+  getGroup?: (item: T) => string;
+  getGroupLimit?: (group: string) => number | undefined;
+};
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` in flight. Items are
+ * started in order, except that an item whose group is at its cap is passed
+ * over for the next eligible one, so a run of Workday companies doesn't leave
+ * the other workers idle. Rejects with the first worker error once every
+ * started item has settled.
+ */
+export async function runWorkerPool<T>(
+  items: T[],
+  worker: (item: T) => Promise<void>,
+  options: WorkerPoolOptions<T>
+): Promise<void> {
+  const concurrency = Math.max(1, options.concurrency);
+  const pending = [...items];
+  const activeByGroup = new Map<string, number>();
+  const running = new Set<Promise<void>>();
+  let firstError: unknown = null;
+
+  const isEligible = (item: T) => {
+    if (!options.getGroup) {
+      return true;
+    }
+    const group = options.getGroup(item);
+    const limit = options.getGroupLimit?.(group);
+    return limit === undefined || (activeByGroup.get(group) ?? 0) < limit;
+  };
+
+  while (running.size > 0 || (pending.length > 0 && firstError === null)) {
+    while (running.size < concurrency && firstError === null) {
+      const index = pending.findIndex(isEligible);
+      if (index === -1) {
+        break;
+      }
+      const [item] = pending.splice(index, 1);
+      const group = options.getGroup?.(item);
+      if (group !== undefined) {
+        activeByGroup.set(group, (activeByGroup.get(group) ?? 0) + 1);
+      }
+      const task: Promise<void> = worker(item)
+        .catch((error) => {
+          firstError = firstError ?? error;
+        })
+        .finally(() => {
+          if (group !== undefined) {
+            activeByGroup.set(group, (activeByGroup.get(group) ?? 1) - 1);
+          }
+          running.delete(task);
+        });
+      running.add(task);
+    }
+    if (running.size === 0) {
+      break;
+    }
+    await Promise.race(running);
+  }
+
+  if (firstError !== null) {
+    throw firstError;
+  }
+}
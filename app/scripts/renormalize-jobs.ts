@@ -0,0 +1,169 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../src/lib/prisma";
+import { atsAdapters, getAdapter, type Company, type NormalizedJob } from "./ats";
+import { buildContentHash } from "./lib/content-hash";
+import { classifyEmploymentType } from "./lib/employment-type";
+import { resolveJobLocations } from "./lib/job-locations";
+import { detectLocationType } from "./lib/location-type";
+import { resolveJobSalary } from "./lib/salary";
+
+const BATCH_SIZE = 1000;
+
+async function main() {
+  const companyArg = process.argv.find((arg) => arg.startsWith("--company="));
+  const companyFilter = companyArg ? companyArg.replace("--company=", "").trim() : "";
+  const atsArg = process.argv.find((arg) => arg.startsWith("--ats="));
+  const atsFilter = atsArg
+    ? atsArg
+        .replace("--ats=", "")
+        .split(",")
+        .map((value) => value.trim().toUpperCase())
+        .filter(Boolean)
+    : [];
+
+  // Only jobs crawled since raw payloads were stored can be rebuilt offline
+  const where: Prisma.JobWhereInput = {
+    rawPayload: { not: Prisma.DbNull },
+    ...(atsFilter.length > 0
+      ? { sourcePlatform: { in: atsFilter as Prisma.EnumSourcePlatformFilter["in"] } }
+      : {}),
+    ...(companyFilter
+      ? { company: { name: { contains: companyFilter, mode: "insensitive" as const } } }
+      : {}),
+  };
+
+  const totalToScan = await prisma.job.count({ where });
+  console.log(`Re-normalizing ${totalToScan} jobs from stored payloads...`);
+
+  let scanned = 0;
+  let updated = 0;
+  let skipped = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const jobs = await prisma.job.findMany({
+      where: cursor ? { ...where, id: { gt: cursor } } : where,
+      select: {
+        id: true,
+        title: true,
+        location: true,
+        postedAt: true,
+        descriptionText: true,
+        requirementsText: true,
+        employmentType: true,
+        locationType: true,
+        salaryMin: true,
+        salaryMax: true,
+        salaryCurrency: true,
+        salaryPeriod: true,
+        salaryAnnualMax: true,
+        contentHash: true,
+        sourcePlatform: true,
+        rawPayload: true,
+        company: {
+          select: {
+            id: true,
+            name: true,
+            platform: true,
+            boardUrl: true,
+            firstCrawledAt: true,
+            lastCrawledAt: true,
+          },
+        },
+      },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (jobs.length === 0) {
+      break;
+    }
+    cursor = jobs[jobs.length - 1].id;
+
+    const updates = [];
+    for (const job of jobs) {
+      const company: Company = job.company;
+      // The payload came from the board the job was crawled on, which isn't the
+      // company's current one after a move (e.g. Lever to Greenhouse)
+      const adapter =
+        job.sourcePlatform === company.platform
+          ? getAdapter(company)
+          : atsAdapters.find((candidate) => candidate.platform === job.sourcePlatform);
+      let normalized: NormalizedJob | null = null;
+      try {
+        normalized = adapter?.normalizeJob(company, job.rawPayload) ?? null;
+      } catch (error) {
+        console.log(`  Skipping ${job.id}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (!normalized?.title) {
+        skipped += 1;
+        continue;
+      }
+
+      // Descriptions fetched from detail pages aren't part of the listing payload
+      const descriptionText = normalized.descriptionText ?? job.descriptionText;
+      const requirementsText = normalized.requirementsText ?? job.requirementsText;
+      const postedAt = normalized.postedAt ? new Date(normalized.postedAt) : null;
+      const data = {
+        title: normalized.title,
+        location: normalized.location,
+        postedAt,
+        descriptionText,
+        requirementsText,
+        employmentType: classifyEmploymentType({ ...normalized, descriptionText }),
+        locationType: detectLocationType({ ...normalized, descriptionText }),
+        ...resolveJobSalary({ ...normalized, descriptionText }),
+        // Hashes the listing, like the crawler, so the next crawl sees no change
+        contentHash: buildContentHash(normalized),
+      };
+
+      const unchanged =
+        data.title === job.title &&
+        data.location === job.location &&
+        data.postedAt?.getTime() === job.postedAt?.getTime() &&
+        data.descriptionText === job.descriptionText &&
+        data.requirementsText === job.requirementsText &&
+        data.employmentType === job.employmentType &&
+        data.locationType === job.locationType &&
+        data.salaryMin === job.salaryMin &&
+        data.salaryMax === job.salaryMax &&
+        data.salaryCurrency === job.salaryCurrency &&
+        data.salaryPeriod === job.salaryPeriod &&
+        data.salaryAnnualMax === job.salaryAnnualMax &&
+        data.contentHash === job.contentHash;
+      if (unchanged) {
+        continue;
+      }
+      updates.push(
+        prisma.job.update({
+          where: { id: job.id },
+          data: {
+            ...data,
+            // Rebuilt with the location string; jobs:backfill-locations --all covers the rest
+            ...(data.location !== job.location
+              ? { locations: { deleteMany: {}, create: resolveJobLocations(normalized) } }
+              : {}),
+          },
+        })
+      );
+    }
+    if (updates.length > 0) {
+      await prisma.$transaction(updates);
+      updated += updates.length;
+    }
+
+    scanned += jobs.length;
+    console.log(`  ${scanned}/${totalToScan} scanned, ${updated} updated, ${skipped} skipped`);
+  }
+
+  console.log("");
+  console.log(`Done. Scanned ${scanned} jobs, updated ${updated}, skipped ${skipped}.`);
+}
+
+main()
+  .catch((error) => {
+    console.error(`Re-normalize failed: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
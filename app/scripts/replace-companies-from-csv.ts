@@ -23,7 +23,12 @@ function parseCSV(content: string) {
         return null;
       }
       // Parse dates
-      if (header === 'createdAt' || header === 'updatedAt' || header === 'firstCrawledAt') {
+      if (
+        header === 'createdAt' ||
+        header === 'updatedAt' ||
+        header === 'firstCrawledAt' ||
+        header === 'lastCrawledAt'
+      ) {
         try {
           return new Date(trimmed);
         } catch {
@@ -0,0 +1,171 @@
+import { closeFirebaseAdminApp } from "../src/lib/firebase-admin";
+import { prisma } from "../src/lib/prisma";
+import type { AlertFrequency } from "../src/lib/firestore";
+import { buildJobFilters, buildWhereSql } from "../src/lib/job-filters";
+import { getSavedSearchParams } from "../src/lib/saved-search";
+import { renderAlertDigest } from "./lib/alert-digest";
+import { getAlertingTables, markTableAlerted, type AlertTable } from "./lib/alert-tables";
+import { createMailerFromEnv, FileMailer, type Mailer } from "./lib/mailer";
+
+type ActiveFrequency = Exclude<AlertFrequency, "off">;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long after the last alert a table is due again. Each is an hour short of
+// the nominal period so a scheduled run that starts a little early still sends.
+const ALERT_INTERVALS_MS: Record<ActiveFrequency, number> = {
+  instant: 0,
+  daily: 23 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS - HOUR_MS,
+};
+
+// Jobs listed in one email; the subject still gives the full count
+const MAX_JOBS_PER_ALERT = 50;
+
+const DEFAULT_DRY_RUN_DIR = "alert-emails";
+
+function isDue(table: AlertTable, frequency: ActiveFrequency, now: Date): boolean {
+  if (!table.lastAlertedAt) {
+    return true;
+  }
+  return now.getTime() - table.lastAlertedAt.getTime() >= ALERT_INTERVALS_MS[frequency];
+}
+
+// Open, non-duplicate jobs matching the table's filters that were added in
+// (since, until]
+async function findNewJobs(table: AlertTable, since: Date, until: Date) {
+  const params = getSavedSearchParams(table);
+  params.set("status", "open");
+  const { where, sqlFilters } = await buildJobFilters(params);
+  (where.AND as unknown[]).push({ createdAt: { gt: since } }, { createdAt: { lte: until } });
+  const { whereSQL, params: sqlParams } = buildWhereSql(where, sqlFilters);
+
+  const [countRows, idRows] = await Promise.all([
+    prisma.$queryRawUnsafe<[{ count: bigint }]>(`SELECT COUNT(*)::bigint AS count FROM "Job" ${whereSQL}`, ...sqlParams),
+    prisma.$queryRawUnsafe<Array<{ id: string }>>(
+      `SELECT "Job".id FROM "Job" ${whereSQL} ORDER BY "Job"."createdAt" DESC, "Job".id LIMIT ${MAX_JOBS_PER_ALERT}`,
+      ...sqlParams
+    ),
+  ]);
+
+  const jobs = await prisma.job.findMany({
+    where: { id: { in: idRows.map((row) => row.id) } },
+    select: {
+      title: true,
+      location: true,
+      jobUrl: true,
+      postedAt: true,
+      salaryMin: true,
+      salaryMax: true,
+      salaryCurrency: true,
+      salaryPeriod: true,
+      company: { select: { name: true } },
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+  });
+  return { total: Number(countRows[0].count), jobs };
+}
+
+async function sendTableAlert(
+  table: AlertTable,
+  frequency: ActiveFrequency,
+  mailer: Mailer,
+  runStartedAt: Date,
+  options: { dryRun: boolean; appUrl: string }
+): Promise<"sent" | "empty" | "skipped"> {
+  if (!table.alertEmail) {
+    console.log(`  ${table.name}: no alert email set, skipping`);
+    return "skipped";
+  }
+  // Alerts were switched on before lastAlertedAt was recorded: start the window now
+  // rather than sending every existing match
+  if (!table.lastAlertedAt) {
+    if (!options.dryRun) {
+      await markTableAlerted(table.id, runStartedAt);
+    }
+    console.log(`  ${table.name}: no previous alert, window starts now`);
+    return "empty";
+  }
+
+  const { total, jobs } = await findNewJobs(table, table.lastAlertedAt, runStartedAt);
+  if (total > 0) {
+    const digest = renderAlertDigest({ tableName: table.name, frequency, jobs, total, appUrl: options.appUrl });
+    await mailer.send({ to: table.alertEmail, ...digest });
+  }
+  // A dry run leaves the window alone so the real run still sends these jobs
+  if (!options.dryRun) {
+    await markTableAlerted(table.id, runStartedAt);
+  }
+  console.log(`  ${table.name}: ${total} new ${total === 1 ? "job" : "jobs"}${total > 0 ? ` → ${table.alertEmail}` : ""}`);
+  return total > 0 ? "sent" : "empty";
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const frequencyArg = args.find((arg) => arg.startsWith("--frequency="));
+  const frequencies = frequencyArg
+    ? frequencyArg.replace("--frequency=", "").split(",").map((value) => value.trim())
+    : Object.keys(ALERT_INTERVALS_MS);
+  const unknown = frequencies.filter((value) => !Object.hasOwn(ALERT_INTERVALS_MS, value));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown --frequency value(s): ${unknown.join(", ")} (expected instant, daily or weekly)`);
+  }
+  const tableArg = args.find((arg) => arg.startsWith("--table="));
+  const tableFilter = tableArg ? tableArg.replace("--table=", "").trim() : "";
+  // --force sends for every selected table regardless of when it was last alerted
+  const force = args.includes("--force");
+  const dryRunArg = args.find((arg) => arg === "--dry-run" || arg.startsWith("--dry-run="));
+  const dryRun = Boolean(dryRunArg);
+  const dryRunDir = dryRunArg?.includes("=") ? dryRunArg.replace("--dry-run=", "") : DEFAULT_DRY_RUN_DIR;
+  const appUrl = process.env.APP_URL || "http://localhost:3000";
+
+  const mailer = dryRun ? new FileMailer(dryRunDir) : createMailerFromEnv();
+  const runStartedAt = new Date();
+
+  const tables = (await getAlertingTables()).filter(
+    (table) =>
+      frequencies.includes(table.alertFrequency) &&
+      (!tableFilter || table.id === tableFilter || table.name.toLowerCase() === tableFilter.toLowerCase())
+  );
+  const due = tables.filter(
+    (table) => force || isDue(table, table.alertFrequency as ActiveFrequency, runStartedAt)
+  );
+  console.log(
+    `Alerts: ${due.length} of ${tables.length} table(s) due${dryRun ? ` (dry run, writing to ${dryRunDir})` : ""}`
+  );
+
+  const totals = { sent: 0, empty: 0, skipped: 0, failed: 0 };
+  // One at a time: a handful of tables, and SMTP servers throttle bursts
+  for (const table of due) {
+    try {
+      const result = await sendTableAlert(table, table.alertFrequency as ActiveFrequency, mailer, runStartedAt, {
+        dryRun,
+        appUrl,
+      });
+      totals[result]++;
+    } catch (error) {
+      // The window isn't advanced, so the next run retries this table
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Warning: Failed to send alert for table ${table.id} (${table.name}): ${message}`);
+      totals.failed++;
+    }
+  }
+
+  console.log(
+    `Done: ${totals.sent} sent, ${totals.empty} with no new jobs, ${totals.skipped} skipped, ${totals.failed} failed`
+  );
+  if (totals.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Sending alerts failed: ${message}`);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await closeFirebaseAdminApp();
+    await prisma.$disconnect();
+  });
@@ -277,6 +277,7 @@ export default function AdminPage() {
               <option value="SMARTRECRUITERS">SmartRecruiters</option>
               <option value="TALEO">Taleo</option>
               <option value="WORKABLE">Workable</option>
+              <option value="ASHBY">Ashby</option>
               <option value="CUSTOM">Custom (to be implemented)</option>
             </select>
           </label>
@@ -365,6 +366,10 @@ export default function AdminPage() {
                 <div className="break-words rounded border border-zinc-200 bg-white p-3 font-mono text-xs">
                   {`site:apply.workable.com ${location} intext:"apply" (intext:"${roleA}" OR intext:"${roleB}")`}
                 </div>
+              ) : ats === "ASHBY" ? (
+                <div className="break-words rounded border border-zinc-200 bg-white p-3 font-mono text-xs">
+                  {`site:jobs.ashbyhq.com ${location} intext:"apply" (intext:"${roleA}" OR intext:"${roleB}")`}
+                </div>
               ) : (
                 <>
                   <div className="break-words rounded border border-zinc-200 bg-white p-3 font-mono text-xs">
@@ -5,7 +5,7 @@ import { prisma } from "@/lib/prisma";
 type RequestBody = {
   urls?: string;
   method?: "google" | "html";
-  ats?: "GREENHOUSE" | "LEVER" | "WORKDAY" | "ICIMS" | "SMARTRECRUITERS" | "TALEO" | "WORKABLE" | "CUSTOM";
+  ats?: "GREENHOUSE" | "LEVER" | "WORKDAY" | "ICIMS" | "SMARTRECRUITERS" | "TALEO" | "WORKABLE" | "ASHBY" | "CUSTOM";
 };
 
 function extractGreenhouseSlugs(input: string): string[] {
@@ -151,6 +151,51 @@ function extractLeverSlugs(input: string): string[] {
     .filter((slug) => slug && /^[a-z0-9_-]+$/.test(slug));
 }
 
+function extractAshbySlugs(input: string): string[] {
+  const normalizedInput = input.replace(/&amp;/g, "&");
+  const slugs = new Set<string>();
+  const urlMatches = normalizedInput.match(/https?:\/\/[^\s]+/g) ?? [];
+  const blockedSlugs = new Set(["api", "embed", "job-board", "jobs"]);
+
+  for (const rawUrl of urlMatches) {
+    try {
+      const url = new URL(rawUrl);
+      // Board URLs: https://jobs.ashbyhq.com/<org> (job pages add /<job-id>)
+      if (url.hostname !== "jobs.ashbyhq.com") {
+        continue;
+      }
+      const parts = url.pathname.split("/").filter(Boolean);
+      if (parts.length === 0) {
+        continue;
+      }
+      slugs.add(parts[0]);
+    } catch {
+      continue;
+    }
+  }
+
+  const textMatches =
+    normalizedInput.match(/jobs\.ashbyhq\.com\s*[^a-z0-9]+([a-z0-9._-]+)/gi) ?? [];
+
+  for (const match of textMatches) {
+    const slugMatch = match.match(/([a-z0-9._-]+)$/i);
+    if (slugMatch) {
+      slugs.add(slugMatch[1]);
+    }
+  }
+
+  return Array.from(slugs)
+    .map((slug) => {
+      try {
+        return decodeURIComponent(slug);
+      } catch {
+        return slug;
+      }
+    })
+    .map((slug) => slug.replace(/["'<>%]+/g, "").trim())
+    .filter((slug) => slug && !blockedSlugs.has(slug.toLowerCase()) && /^[a-z0-9._-]+$/i.test(slug));
+}
+
 function extractWorkdayBoards(input: string): { name: string; boardUrl: string }[] {
   const normalizedInput = input.replace(/&amp;/g, "&");
   const urlMatches = normalizedInput.match(/https?:\/\/[^\s]+/g) ?? [];
@@ -407,7 +452,13 @@ export async function POST(request: Request) {
   }
 
   const slugs =
-    ats === "LEVER" ? extractLeverSlugs(input) : ats === "GREENHOUSE" ? extractGreenhouseSlugs(input) : [];
+    ats === "LEVER"
+      ? extractLeverSlugs(input)
+      : ats === "ASHBY"
+      ? extractAshbySlugs(input)
+      : ats === "GREENHOUSE"
+      ? extractGreenhouseSlugs(input)
+      : [];
   const workdayBoards = ats === "WORKDAY" ? extractWorkdayBoards(input) : [];
   const icimsBoards = ats === "ICIMS" ? extractIcimsBoards(input) : [];
   const smartRecruitersBoards = ats === "SMARTRECRUITERS" ? extractSmartRecruitersBoards(input) : [];
@@ -435,6 +486,8 @@ export async function POST(request: Request) {
           boardUrl:
             ats === "LEVER"
               ? `https://jobs.lever.co/${slug}/`
+              : ats === "ASHBY"
+              ? `https://jobs.ashbyhq.com/${slug}`
               : `https://job-boards.greenhouse.io/${slug}/`,
         }));
 
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+
+import { findSimilarCompanies } from "@/lib/company-search";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 25;
+
+// Company name autocomplete, ranked by similarity so typos and spacing
+// variants ("Jp Morgan", "JPMorgan") still find the company
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get("q")?.trim();
+  if (!q) {
+    return NextResponse.json({ items: [] });
+  }
+
+  const limit = Math.min(
+    MAX_LIMIT,
+    Math.max(1, Number.parseInt(searchParams.get("limit") ?? `${DEFAULT_LIMIT}`, 10) || DEFAULT_LIMIT)
+  );
+
+  try {
+    const items = await findSimilarCompanies(q, limit);
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Error suggesting companies:", error);
+    return NextResponse.json({ error: "Failed to suggest companies" }, { status: 500 });
+  }
+}
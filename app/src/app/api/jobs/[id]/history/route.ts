@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { prisma } from "@/lib/prisma";
+
+// GET /api/jobs/[id]/history
+// Lifecycle events recorded by the crawler, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await prisma.job.findUnique({
+      where: { id },
+      select: { id: true, firstSeenAt: true, lastSeenAt: true, status: true },
+    });
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const events = await prisma.jobEvent.findMany({
+      where: { jobId: id },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        type: true,
+        fromValue: true,
+        toValue: true,
+        createdAt: true,
+      },
+      take: 100,
+    });
+
+    return NextResponse.json({
+      jobId: job.id,
+      firstSeenAt: job.firstSeenAt.toISOString(),
+      lastSeenAt: job.lastSeenAt.toISOString(),
+      status: job.status,
+      events: events.map((event) => ({
+        ...event,
+        createdAt: event.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching job history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch job history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+
+import { buildJobFilters, buildWhereSql, type JobFilters } from "@/lib/job-filters";
+import { prisma } from "@/lib/prisma";
+
+const TOP_LIMIT = 10;
+
+type FacetCount = { value: string; count: number };
+
+// Each facet is counted without its own filter, so picking one platform still
+// shows how many jobs the other platforms would add
+const FACET_PARAMS = {
+  sourcePlatform: ["platforms"],
+  employmentType: ["employmentType"],
+  locationType: ["locationType"],
+  status: ["status"],
+  companies: ["company", "companyName"],
+  locations: ["location", "country", "region"],
+} as const;
+
+type Facet = keyof typeof FACET_PARAMS;
+
+// Counts per option of one enum column
+async function countByColumn(column: string, filters: JobFilters): Promise<FacetCount[]> {
+  const { whereSQL, params } = buildWhereSql(filters.where, filters.sqlFilters);
+  const rows = await prisma.$queryRawUnsafe<Array<{ value: string | null; count: bigint }>>(
+    `SELECT "${column}"::text AS value, COUNT(*)::bigint AS count
+     FROM "Job" ${whereSQL}
+     GROUP BY 1
+     ORDER BY count DESC`,
+    ...params
+  );
+  return rows.flatMap((row) => (row.value === null ? [] : [{ value: row.value, count: Number(row.count) }]));
+}
+
+async function countCompanies(filters: JobFilters): Promise<FacetCount[]> {
+  const { whereSQL, params } = buildWhereSql(filters.where, filters.sqlFilters);
+  // Grouped before the join, so unqualified Job columns in the WHERE stay unambiguous
+  const rows = await prisma.$queryRawUnsafe<Array<{ value: string; count: bigint }>>(
+    `SELECT c.name AS value, t.count
+     FROM (
+       SELECT "companyId", COUNT(*)::bigint AS count
+       FROM "Job" ${whereSQL}
+       GROUP BY 1
+       ORDER BY count DESC
+       LIMIT ${TOP_LIMIT}
+     ) t
+     JOIN "Company" c ON c.id = t."companyId"
+     ORDER BY t.count DESC, c.name`,
+    ...params
+  );
+  return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+}
+
+// Top cities from the parsed JobLocation rows; `value` is what the location
+// filter should be given, `label` adds the region or country
+async function countLocations(filters: JobFilters): Promise<Array<FacetCount & { label: string }>> {
+  const { whereSQL, params } = buildWhereSql(filters.where, filters.sqlFilters);
+  const rows = await prisma.$queryRawUnsafe<
+    Array<{ city: string; region: string | null; countryCode: string | null; count: bigint }>
+  >(
+    `SELECT l.city, l.region, l."countryCode", COUNT(DISTINCT l."jobId")::bigint AS count
+     FROM "JobLocation" l
+     WHERE l.city IS NOT NULL
+       AND l."jobId" IN (SELECT "Job".id FROM "Job" ${whereSQL})
+     GROUP BY 1, 2, 3
+     ORDER BY count DESC, l.city
+     LIMIT ${TOP_LIMIT}`,
+    ...params
+  );
+  return rows.map((row) => ({
+    value: row.city,
+    label: [row.city, row.region ?? row.countryCode].filter(Boolean).join(", "),
+    count: Number(row.count),
+  }));
+}
+
+// Takes the same query parameters as /api/jobs (paging and sort are ignored)
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const baseFilters = await buildJobFilters(searchParams);
+    const filtersFor = async (facet: Facet): Promise<JobFilters> => {
+      const omitted = FACET_PARAMS[facet];
+      if (!omitted.some((param) => searchParams.has(param))) {
+        return baseFilters;
+      }
+      const facetParams = new URLSearchParams(searchParams);
+      omitted.forEach((param) => facetParams.delete(param));
+      return buildJobFilters(facetParams);
+    };
+
+    const [sourcePlatform, employmentType, locationType, status, companies, locations] = await Promise.all([
+      filtersFor("sourcePlatform").then((filters) => countByColumn("sourcePlatform", filters)),
+      filtersFor("employmentType").then((filters) => countByColumn("employmentType", filters)),
+      filtersFor("locationType").then((filters) => countByColumn("locationType", filters)),
+      filtersFor("status").then((filters) => countByColumn("status", filters)),
+      filtersFor("companies").then(countCompanies),
+      filtersFor("locations").then(countLocations),
+    ]);
+
+    return NextResponse.json({
+      sourcePlatform,
+      employmentType,
+      locationType,
+      status,
+      companies,
+      locations,
+    });
+  } catch (error) {
+    console.error("Error fetching job facets:", error);
+    return NextResponse.json({ error: "Failed to fetch facets" }, { status: 500 });
+  }
+}
@@ -1,24 +1,12 @@
 import { NextResponse } from "next/server";
 
+import { decodeCursor, encodeCursor, type JobCursor, type SortDirection } from "@/lib/job-cursor";
+import { buildJobFilters, buildWhereSql, type SqlFilters } from "@/lib/job-filters";
 import { prisma } from "@/lib/prisma";
 
 const DEFAULT_PAGE_SIZE = 25;
 const MAX_PAGE_SIZE = 100;
 
-function getStringArray(values: string[]): string[] {
-  return values
-    .flatMap((value) => value.split(","))
-    .map((value) => value.trim())
-    .filter(Boolean);
-}
-
-function getTokens(input: string): string[] {
-  return input
-    .split(/\s+/)
-    .map((token) => token.trim())
-    .filter(Boolean);
-}
-
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
 
@@ -39,17 +27,10 @@ export async function GET(request: Request) {
     });
   }
 
-  const q = searchParams.get("q")?.trim();
-  const title = searchParams.get("title")?.trim();
-  const location = searchParams.get("location")?.trim();
-  const employmentType = searchParams.get("employmentType")?.trim();
-  const locationType = searchParams.get("locationType")?.trim();
-  const postedAfter = searchParams.get("postedAfter")?.trim();
   const sort = searchParams.get("sort")?.trim();
   const sortDir = searchParams.get("sortDir")?.trim().toLowerCase();
-  const companyName = searchParams.get("companyName")?.trim();
-  const status = searchParams.get("status")?.trim();
-  const platforms = searchParams.get("platforms")?.trim();
+  // Opaque nextCursor / prevCursor from an earlier response; replaces `page`
+  const cursorParam = searchParams.get("cursor")?.trim();
   const skipCount = searchParams.get("skipCount") === "true";
 
   const page = Math.max(1, Number.parseInt(searchParams.get("page") ?? "1", 10));
@@ -61,129 +42,105 @@ export async function GET(request: Request) {
     )
   );
 
-  const companies = getStringArray(searchParams.getAll("company"));
-
-  const where: Record<string, unknown> = { AND: [] as unknown[] };
+  const { where, sqlFilters } = await buildJobFilters(searchParams);
   const and = where.AND as unknown[];
 
-  if (q) {
-    and.push({
-      OR: [
-        { title: { contains: q, mode: "insensitive" } },
-        { descriptionText: { contains: q, mode: "insensitive" } },
-        { requirementsText: { contains: q, mode: "insensitive" } },
-      ],
-    });
-  }
-
-  if (title) {
-    // Support comma-separated title terms with OR logic
-    const titleTerms = title.split(',').map(t => t.trim()).filter(Boolean);
-    if (titleTerms.length > 0) {
-      and.push({
-        OR: titleTerms.map((term) => {
-          const tokens = getTokens(term);
-          if (tokens.length === 1) {
-            return { title: { contains: tokens[0], mode: "insensitive" } };
-          }
-          return {
-            AND: tokens.map((token) => ({
-              title: { contains: token, mode: "insensitive" },
-            })),
-          };
-        }),
-      });
-    }
-  }
+  // Unknown sorts fall back to company A-Z
+  const isKnownSort = Boolean(
+    sort && (Object.hasOwn(KEYSET_SORTS, sort) || sort === "salary" || sort === "relevance")
+  );
+  const sortKey = isKnownSort ? (sort as string) : "company";
+  const direction: SortDirection = !isKnownSort ? "asc" : sortDir === "asc" ? "asc" : "desc";
+  const keysetSort = Object.hasOwn(KEYSET_SORTS, sortKey) ? KEYSET_SORTS[sortKey] : undefined;
 
-  if (location) {
-    // Support comma-separated location terms with OR logic
-    const locationTerms = location.split(',').map(l => l.trim()).filter(Boolean);
-    if (locationTerms.length > 0) {
-      and.push({
-        OR: locationTerms.map((term) => ({
-          location: { contains: term, mode: "insensitive" },
-        })),
-      });
+  let cursor: JobCursor | null = null;
+  if (cursorParam) {
+    cursor = decodeCursor(cursorParam);
+    if (!cursor || !keysetSort || cursor.sort !== sortKey || cursor.dir !== direction) {
+      return NextResponse.json({ error: "Invalid cursor for this sort" }, { status: 400 });
     }
   }
 
-  if (employmentType) {
-    and.push({ employmentType });
-  }
-
-  if (locationType) {
-    and.push({ locationType });
-  }
+  // id breaks ties, so every sort is a total order that cursors can resume from
+  const orderBy =
+    sortKey === "posted_at"
+      ? [{ postedAt: { sort: direction, nulls: "last" as const } }, { id: direction }]
+      : sortKey === "last_seen_at"
+      ? [{ lastSeenAt: direction }, { id: direction }]
+      : sortKey === "title"
+      ? [{ title: direction }, { id: direction }]
+      : sortKey === "created_at"
+      ? [{ createdAt: direction }, { id: direction }]
+      : sortKey === "salary"
+      ? [{ salaryAnnualMax: { sort: direction, nulls: "last" as const } }, { id: direction }]
+      : [{ company: { name: direction } }, { id: direction }];
 
-  if (postedAfter) {
-    const date = new Date(postedAfter);
-    if (!Number.isNaN(date.getTime())) {
-      and.push({ postedAt: { gte: date } });
-    }
-  }
+  const whereClause = and.length > 0 ? where : undefined;
+  const skip = cursor ? 0 : (page - 1) * pageSize;
 
-  if (companies.length > 0) {
-    and.push({ company: { name: { in: companies } } });
+  // Prisma can't query the tsvector column, trigram operators or row-value
+  // cursors, so those requests pick the page of IDs in SQL and load the rows
+  // afterwards. One extra row is fetched to tell whether another page follows.
+  let jobs;
+  if (cursor || sqlFilters.search || sqlFilters.fuzzyTitle) {
+    const ids = await selectJobIds(whereClause, sqlFilters, {
+      sort: sortKey,
+      direction,
+      take: pageSize + 1,
+      skip,
+      cursor,
+    });
+    const rows = await prisma.job.findMany({
+      where: { id: { in: ids } },
+      include: { company: true },
+    });
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+    jobs = ids.flatMap((id) => rowsById.get(id) ?? []);
+  } else {
+    jobs = await prisma.job.findMany({
+      where: whereClause,
+      take: pageSize + 1,
+      skip,
+      orderBy,
+      include: { company: true },
+    });
   }
 
-  if (companyName) {
-    and.push({ company: { name: { contains: companyName, mode: "insensitive" } } });
+  const hasMore = jobs.length > pageSize;
+  jobs = jobs.slice(0, pageSize);
+  if (cursor?.before) {
+    // Paged backwards from the cursor, nearest row first
+    jobs.reverse();
   }
 
-  if (status) {
-    // Map URL status values to Prisma enum values
-    const statusMap: Record<string, string> = {
-      'open': 'ACTIVE',
-      'closed': 'CLOSED',
-      'both': undefined as any, // Don't filter by status
-    };
-    const mappedStatus = statusMap[status.toLowerCase()];
-    if (mappedStatus) {
-      and.push({ status: mappedStatus });
+  let nextCursor: string | null = null;
+  let prevCursor: string | null = null;
+  if (keysetSort && jobs.length > 0) {
+    const hasNext = cursor?.before ? true : hasMore;
+    const hasPrev = cursor?.before ? hasMore : cursor !== null || page > 1;
+    const first = jobs[0];
+    const last = jobs[jobs.length - 1];
+    if (hasNext) {
+      nextCursor = encodeCursor({ sort: sortKey, dir: direction, value: keysetSort.value(last), id: last.id });
     }
-  }
-
-  if (platforms) {
-    const platformList = platforms.split(',').map(p => p.trim()).filter(Boolean);
-    if (platformList.length > 0) {
-      and.push({ sourcePlatform: { in: platformList } });
+    if (hasPrev) {
+      prevCursor = encodeCursor({
+        sort: sortKey,
+        dir: direction,
+        value: keysetSort.value(first),
+        id: first.id,
+        before: true,
+      });
     }
   }
 
-  const direction = sortDir === "asc" ? "asc" : "desc";
-  type SortDirection = "asc" | "desc";
-  const orderBy =
-    sort === "posted_at"
-      ? { postedAt: direction as SortDirection }
-      : sort === "last_seen_at"
-      ? { lastSeenAt: direction as SortDirection }
-      : sort === "title"
-      ? { title: direction as SortDirection }
-      : sort === "created_at"
-      ? { createdAt: direction as SortDirection }
-      : sort === "company"
-      ? { company: { name: direction as SortDirection } }
-      : { company: { name: "asc" as SortDirection } };
-
-  const whereClause = and.length > 0 ? where : undefined;
-  
-  // Fetch jobs
-  const jobs = await prisma.job.findMany({
-    where: whereClause,
-    take: pageSize,
-    skip: (page - 1) * pageSize,
-    orderBy,
-    include: { company: true },
-  });
-
   // Skip count if requested (for faster page loads after page 1)
   let total: number;
   if (skipCount) {
     total = -1; // Client will use cached value
   } else {
     // Use raw SQL for count to avoid Prisma's slow OFFSET wrapper
-    total = await fastCount(whereClause);
+    total = await fastCount(whereClause, sqlFilters);
   }
 
   return NextResponse.json({
@@ -191,12 +148,124 @@ export async function GET(request: Request) {
     total,
     page,
     pageSize,
+    nextCursor,
+    prevCursor,
   });
 }
 
+type CursorJob = {
+  id: string;
+  title: string;
+  createdAt: Date;
+  postedAt: Date | null;
+  lastSeenAt: Date;
+  company: { name: string };
+};
+
+// A subquery rather than a join, so unqualified Job columns in the WHERE stay unambiguous
+const COMPANY_NAME_SQL = `(SELECT c.name FROM "Company" c WHERE c.id = "Job"."companyId")`;
+
+// Sorts cursors can page through: the sort key as SQL, how to read it off a
+// row, and the cast its cursor value needs
+const KEYSET_SORTS: Record<
+  string,
+  { column: string; value: (job: CursorJob) => string | null; cast?: string; nullable?: boolean }
+> = {
+  company: { column: COMPANY_NAME_SQL, value: (job) => job.company.name },
+  title: { column: `"Job".title`, value: (job) => job.title },
+  created_at: {
+    column: `"Job"."createdAt"`,
+    value: (job) => job.createdAt.toISOString(),
+    cast: "timestamp",
+  },
+  posted_at: {
+    column: `"Job"."postedAt"`,
+    value: (job) => job.postedAt?.toISOString() ?? null,
+    cast: "timestamp",
+    nullable: true,
+  },
+  last_seen_at: {
+    column: `"Job"."lastSeenAt"`,
+    value: (job) => job.lastSeenAt.toISOString(),
+    cast: "timestamp",
+  },
+};
+
+// ORDER BY for the raw ID query, mirroring the Prisma orderBy above. Paging
+// backwards walks the same order in reverse.
+function getOrderSql(sort: string, direction: SortDirection, reverse = false): string {
+  const ascending = (direction === "asc") !== reverse;
+  const dir = ascending ? "ASC" : "DESC";
+  if (sort === "relevance") {
+    return `rank DESC, "Job".id`;
+  }
+  if (sort === "salary") {
+    return `"Job"."salaryAnnualMax" ${dir} NULLS LAST, "Job".id ${dir}`;
+  }
+  const keyset = KEYSET_SORTS[sort];
+  // Jobs without a value sort last in either direction
+  const nulls = keyset.nullable ? (reverse ? " NULLS FIRST" : " NULLS LAST") : "";
+  return `${keyset.column} ${dir}${nulls}, "Job".id ${dir}`;
+}
+
+// Rows strictly past the cursor in the (possibly reversed) sort order
+function getKeysetSql(cursor: JobCursor, paramIndex: number): { sql: string; params: unknown[] } {
+  const keyset = KEYSET_SORTS[cursor.sort];
+  const column = keyset.column;
+  const op = (cursor.dir === "asc") !== Boolean(cursor.before) ? ">" : "<";
+
+  if (cursor.value === null) {
+    // The cursor row is among the trailing NULLs
+    const sql = cursor.before
+      ? `(${column} IS NOT NULL OR "Job".id ${op} $${paramIndex})`
+      : `(${column} IS NULL AND "Job".id ${op} $${paramIndex})`;
+    return { sql, params: [cursor.id] };
+  }
+  const value = keyset.cast ? `$${paramIndex}::${keyset.cast}` : `$${paramIndex}`;
+  const id = `$${paramIndex + 1}`;
+  const trailingNulls = keyset.nullable && !cursor.before ? ` OR ${column} IS NULL` : "";
+  return {
+    sql: `(${column} ${op} ${value} OR (${column} = ${value} AND "Job".id ${op} ${id})${trailingNulls})`,
+    params: [cursor.value, cursor.id],
+  };
+}
+
+async function selectJobIds(
+  where: Record<string, unknown> | undefined,
+  filters: SqlFilters,
+  options: {
+    sort: string;
+    direction: SortDirection;
+    take: number;
+    skip: number;
+    cursor: JobCursor | null;
+  }
+): Promise<string[]> {
+  // buildWhereSql puts the search text first, as $1
+  const { whereSQL, params } = buildWhereSql(where, filters);
+  const conditions = whereSQL ? [whereSQL.replace(/^WHERE /, "")] : [];
+  if (options.cursor) {
+    const keyset = getKeysetSql(options.cursor, params.length + 1);
+    conditions.push(keyset.sql);
+    params.push(...keyset.params);
+  }
+  const rankSQL = filters.search
+    ? `ts_rank("Job"."searchVector", websearch_to_tsquery('english', $1))`
+    : `0`;
+  const sql = `
+    SELECT "Job".id, ${rankSQL} AS rank
+    FROM "Job"
+    ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+    ORDER BY ${getOrderSql(options.sort, options.direction, Boolean(options.cursor?.before))}
+    LIMIT ${options.take} OFFSET ${options.skip}
+  `;
+  const rows = await prisma.$queryRawUnsafe<Array<{ id: string }>>(sql, ...params);
+  return rows.map((row) => row.id);
+}
+
 // Fast count using raw SQL to avoid Prisma's OFFSET wrapper
-async function fastCount(where: any): Promise<number> {
-  if (!where || !where.AND || where.AND.length === 0) {
+async function fastCount(where: Record<string, unknown> | undefined, filters: SqlFilters = {}): Promise<number> {
+  if (!filters.search && !filters.fuzzyTitle && !(where?.AND as unknown[] | undefined)?.length) {
     // Simple count with no filters
     const result = await prisma.$queryRaw<[{ count: bigint }]>`
       SELECT COUNT(*)::bigint as count FROM "Job"
@@ -204,135 +273,9 @@ async function fastCount(where: any): Promise<number> {
     return Number(result[0].count);
   }
 
-  // Build WHERE clause from Prisma where object
-  const conditions: string[] = [];
-  const params: any[] = [];
-  let paramIndex = 1;
-
-  for (const condition of where.AND) {
-    if (condition.status) {
-      conditions.push(`status = $${paramIndex}::"JobStatus"`);
-      params.push(condition.status);
-      paramIndex++;
-    }
-    
-    if (condition.employmentType) {
-      conditions.push(`"employmentType" = $${paramIndex}::"EmploymentType"`);
-      params.push(condition.employmentType);
-      paramIndex++;
-    }
-    
-    if (condition.locationType) {
-      conditions.push(`"locationType" = $${paramIndex}::"LocationType"`);
-      params.push(condition.locationType);
-      paramIndex++;
-    }
-    
-    if (condition.postedAt?.gte) {
-      conditions.push(`"postedAt" >= $${paramIndex}`);
-      params.push(condition.postedAt.gte);
-      paramIndex++;
-    }
-    
-    if (condition.sourcePlatform?.in) {
-      const platforms = condition.sourcePlatform.in;
-      const placeholders = platforms.map((_: any, i: number) => `$${paramIndex + i}::"SourcePlatform"`).join(', ');
-      conditions.push(`"sourcePlatform" IN (${placeholders})`);
-      params.push(...platforms);
-      paramIndex += platforms.length;
-    }
-    
-    // Handle OR conditions (title, location, q)
-    if (condition.OR) {
-      const orConditions: string[] = [];
-      
-      for (const orCond of condition.OR) {
-        // Title contains
-        if (orCond.title?.contains) {
-          orConditions.push(`title ILIKE $${paramIndex}`);
-          params.push(`%${orCond.title.contains}%`);
-          paramIndex++;
-        }
-        
-        // Location contains
-        if (orCond.location?.contains) {
-          orConditions.push(`location ILIKE $${paramIndex}`);
-          params.push(`%${orCond.location.contains}%`);
-          paramIndex++;
-        }
-        
-        // Description/requirements text
-        if (orCond.descriptionText?.contains) {
-          orConditions.push(`"descriptionText" ILIKE $${paramIndex}`);
-          params.push(`%${orCond.descriptionText.contains}%`);
-          paramIndex++;
-        }
-        
-        if (orCond.requirementsText?.contains) {
-          orConditions.push(`"requirementsText" ILIKE $${paramIndex}`);
-          params.push(`%${orCond.requirementsText.contains}%`);
-          paramIndex++;
-        }
-        
-        // Nested AND for multi-token title search
-        if (orCond.AND) {
-          const andParts: string[] = [];
-          for (const andCond of orCond.AND) {
-            if (andCond.title?.contains) {
-              andParts.push(`title ILIKE $${paramIndex}`);
-              params.push(`%${andCond.title.contains}%`);
-              paramIndex++;
-            }
-          }
-          if (andParts.length > 0) {
-            orConditions.push(`(${andParts.join(' AND ')})`);
-          }
-        }
-      }
-      
-      if (orConditions.length > 0) {
-        conditions.push(`(${orConditions.join(' OR ')})`);
-      }
-    }
-    
-    // Handle company name filter (requires JOIN)
-    if (condition.company?.name?.contains) {
-      conditions.push(`EXISTS (
-        SELECT 1 FROM "Company" c 
-        WHERE c.id = "Job"."companyId" 
-        AND c.name ILIKE $${paramIndex}
-      )`);
-      params.push(`%${condition.company.name.contains}%`);
-      paramIndex++;
-    }
-    
-    if (condition.company?.name?.in) {
-      const companyNames = condition.company.name.in;
-      conditions.push(`EXISTS (
-        SELECT 1 FROM "Company" c 
-        WHERE c.id = "Job"."companyId" 
-        AND c.name = ANY($${paramIndex}::text[])
-      )`);
-      params.push(companyNames);
-      paramIndex++;
-    }
-    
-    if (condition.createdAt?.gte) {
-      conditions.push(`"createdAt" >= $${paramIndex}`);
-      params.push(condition.createdAt.gte);
-      paramIndex++;
-    }
-    
-    if (condition.lastSeenAt?.gte) {
-      conditions.push(`"lastSeenAt" >= $${paramIndex}`);
-      params.push(condition.lastSeenAt.gte);
-      paramIndex++;
-    }
-  }
-
-  const whereSQL = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { whereSQL, params } = buildWhereSql(where, filters);
   const sql = `SELECT COUNT(*)::bigint as count FROM "Job" ${whereSQL}`;
-  
+
   const result = await prisma.$queryRawUnsafe<[{ count: bigint }]>(sql, ...params);
   return Number(result[0].count);
 }
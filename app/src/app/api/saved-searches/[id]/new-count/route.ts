@@ -0,0 +1,94 @@
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import { NextResponse } from "next/server";
+
+import { getFirebaseAdminApp } from "@/lib/firebase-admin";
+import { buildJobFilters, buildWhereSql } from "@/lib/job-filters";
+import { prisma } from "@/lib/prisma";
+import { getSavedSearchParams } from "@/lib/saved-search";
+
+// The count is always exact; the ID list stops at the newest this many
+const MAX_NEW_JOB_IDS = 1000;
+
+// Firebase user ID from an `Authorization: Bearer <ID token>` header, or null
+async function getCallerUid(request: Request): Promise<string | null> {
+  const header = request.headers.get("authorization");
+  const token = header?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) {
+    return null;
+  }
+  // Outside the try: a missing service account is a server error, not a bad token
+  const auth = getAuth(getFirebaseAdminApp());
+  try {
+    const decoded = await auth.verifyIdToken(token);
+    return decoded.uid;
+  } catch {
+    return null;
+  }
+}
+
+// GET /api/saved-searches/[id]/new-count
+// Jobs matching the custom table's saved filters that were added after its
+// lastSeenAt (every match, if it has none). The table is read from Firestore
+// with admin credentials, so the caller's Firebase ID token must belong to
+// its owner.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const uid = await getCallerUid(request);
+    if (!uid) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const snapshot = await getFirestore(getFirebaseAdminApp()).collection("customTables").doc(id).get();
+    const data = snapshot.data();
+    if (!data) {
+      return NextResponse.json({ error: "Table not found" }, { status: 404 });
+    }
+    if (data.userId !== uid) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const since: Date | null = data.lastSeenAt?.toDate() || null;
+    const { where, sqlFilters } = await buildJobFilters(
+      getSavedSearchParams({
+        titleKeywords: data.titleKeywords || [],
+        locationKeywords: data.locationKeywords || [],
+        companyFilter: data.companyFilter || "",
+      })
+    );
+    if (since) {
+      (where.AND as unknown[]).push({ createdAt: { gt: since } });
+    }
+    const { whereSQL, params: sqlParams } = buildWhereSql(where, sqlFilters);
+
+    const [countRows, idRows] = await Promise.all([
+      prisma.$queryRawUnsafe<[{ count: bigint }]>(
+        `SELECT COUNT(*)::bigint AS count FROM "Job" ${whereSQL}`,
+        ...sqlParams
+      ),
+      prisma.$queryRawUnsafe<Array<{ id: string }>>(
+        `SELECT "Job".id FROM "Job" ${whereSQL} ORDER BY "Job"."createdAt" DESC, "Job".id LIMIT ${MAX_NEW_JOB_IDS}`,
+        ...sqlParams
+      ),
+    ]);
+    const count = Number(countRows[0].count);
+    const jobIds = idRows.map((row) => row.id);
+
+    return NextResponse.json({
+      since,
+      count,
+      jobIds,
+      truncated: count > jobIds.length,
+    });
+  } catch (error) {
+    console.error("Error counting new saved-search jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to count new jobs" },
+      { status: 500 }
+    );
+  }
+}
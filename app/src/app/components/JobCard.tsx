@@ -1,5 +1,7 @@
 "use client";
 
+import { formatSalaryRange } from "@/lib/salary";
+
 type Job = {
   id: string;
   title: string;
@@ -10,6 +12,10 @@ type Job = {
   updatedAt?: string;
   sourcePlatform: string;
   status: string;
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  salaryCurrency?: string | null;
+  salaryPeriod?: string | null;
   company: {
     name: string;
     boardUrl: string;
@@ -93,6 +99,7 @@ export function JobCard({
   const isNew = showNewBadge !== undefined ? showNewBadge : isNewJob(job.createdAt);
   const remote = isRemote(job.location);
   const jobType = getJobType(job.title);
+  const salary = formatSalaryRange(job);
 
   const handleCheckboxClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -242,6 +249,12 @@ export function JobCard({
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
               </svg>
               <span className="truncate">{job.location ?? "Remote / Unknown"}</span>
+              {salary && (
+                <>
+                  <span className="text-slate-300 dark:text-slate-600">•</span>
+                  <span className="font-medium text-emerald-700 dark:text-emerald-400 whitespace-nowrap">{salary}</span>
+                </>
+              )}
               <span className="text-slate-300 dark:text-slate-600">•</span>
               <span className="text-slate-400 dark:text-slate-500 whitespace-nowrap">{formatDate(job.createdAt)}</span>
             </div>
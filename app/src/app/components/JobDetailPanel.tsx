@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import { formatSalaryRange } from "@/lib/salary";
 
 type Job = {
   id: string;
@@ -14,12 +15,31 @@ type Job = {
   updatedAt?: string;
   sourcePlatform: string;
   status: string;
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  salaryCurrency?: string | null;
+  salaryPeriod?: string | null;
   company: {
     name: string;
     boardUrl: string;
   };
 };
 
+type JobHistoryEvent = {
+  id: string;
+  type:
+    | "CREATED"
+    | "CLOSED"
+    | "REACTIVATED"
+    | "TITLE_CHANGED"
+    | "LOCATION_CHANGED"
+    | "DESCRIPTION_CHANGED"
+    | "EXTERNAL_ID_REWRITTEN";
+  fromValue: string | null;
+  toValue: string | null;
+  createdAt: string;
+};
+
 type JobDetailPanelProps = {
   job: Job | null;
   onAddToApply?: (jobId: string) => void;
@@ -46,6 +66,88 @@ function formatDate(dateString: string): string {
   }).format(date);
 }
 
+function formatShortDate(dateString: string): string {
+  const date = new Date(dateString);
+  if (Number.isNaN(date.getTime())) {
+    return "Unknown";
+  }
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  }).format(date);
+}
+
+const CLOSE_REASON_LABELS: Record<string, string> = {
+  MISSING_FROM_BOARD: "no longer listed on the board",
+  NOT_FOUND_BY_ID: "no longer listed or searchable on the board",
+};
+
+function describeHistoryEvent(event: JobHistoryEvent): string {
+  switch (event.type) {
+    case "CREATED":
+      return "First seen";
+    case "CLOSED":
+      return event.toValue && CLOSE_REASON_LABELS[event.toValue]
+        ? `Closed (${CLOSE_REASON_LABELS[event.toValue]})`
+        : "Closed";
+    case "REACTIVATED":
+      return "Reopened";
+    case "TITLE_CHANGED":
+      return `Title changed from "${event.fromValue ?? ""}" to "${event.toValue ?? ""}"`;
+    case "LOCATION_CHANGED":
+      return `Location changed from ${event.fromValue ?? "none"} to ${event.toValue ?? "none"}`;
+    case "DESCRIPTION_CHANGED":
+      return "Description updated";
+    case "EXTERNAL_ID_REWRITTEN":
+      return "Posting ID updated";
+    default:
+      return event.type;
+  }
+}
+
+// Crawler-recorded lifecycle of the posting (first seen, closed, reopened, edits)
+function JobHistory({ jobId }: { jobId: string }) {
+  // Keyed by job so a previous job's history never shows while the next one loads
+  const [history, setHistory] = useState<{ jobId: string; events: JobHistoryEvent[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/jobs/${jobId}/history`)
+      .then((res) => (res.ok ? res.json() : { events: [] }))
+      .then((data: { events?: JobHistoryEvent[] }) => {
+        if (!cancelled) setHistory({ jobId, events: data.events ?? [] });
+      })
+      .catch(() => {
+        if (!cancelled) setHistory({ jobId, events: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  const events = history?.jobId === jobId ? history.events : null;
+  if (!events || events.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t border-slate-100 dark:border-slate-700 px-6 py-6">
+      <h2 className="mb-4 text-lg font-semibold text-slate-900 dark:text-slate-100">History</h2>
+      <ol className="space-y-2 text-sm">
+        {events.map((event) => (
+          <li key={event.id} className="flex gap-3">
+            <span className="w-28 shrink-0 text-slate-400 dark:text-slate-500">
+              {formatShortDate(event.createdAt)}
+            </span>
+            <span className="text-slate-600 dark:text-slate-300">{describeHistoryEvent(event)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
 function isNewJob(dateString: string): boolean {
   const date = new Date(dateString);
   if (Number.isNaN(date.getTime())) return false;
@@ -148,6 +250,7 @@ export function JobDetailPanel({ job, onAddToApply, onAddToApplied, onRemove, on
 
   const isClosed = job.status === "CLOSED";
   const isNew = isNewJob(job.createdAt);
+  const salary = formatSalaryRange(job);
   const formattedDescription = formatDescription(job.descriptionText);
 
   const handleToggleToApply = () => {
@@ -261,6 +364,14 @@ export function JobDetailPanel({ job, onAddToApply, onAddToApplied, onRemove, on
               </svg>
               <span>Found {formatDate(job.createdAt)}</span>
             </div>
+            {salary && (
+              <div className="flex items-center gap-1.5 font-medium text-emerald-700 dark:text-emerald-400">
+                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                <span>{salary}</span>
+              </div>
+            )}
             {isClosed ? (
               <span className="inline-flex items-center gap-1.5 rounded-full bg-amber-50 dark:bg-amber-900/30 px-3 py-1 text-xs font-semibold text-amber-700 dark:text-amber-400 ring-1 ring-amber-200 dark:ring-amber-800">
                 <span className="h-1.5 w-1.5 rounded-full bg-amber-500" />
@@ -403,6 +514,8 @@ export function JobDetailPanel({ job, onAddToApply, onAddToApplied, onRemove, on
             </pre>
           </div>
         </div>
+
+        <JobHistory jobId={job.id} />
       </div>
     </div>
   );
@@ -33,8 +33,26 @@ type ApiResponse = {
   total: number;
   page: number;
   pageSize: number;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
 };
 
+type FacetCount = { value: string; count: number };
+
+type JobFacets = {
+  sourcePlatform: FacetCount[];
+  employmentType: FacetCount[];
+  locationType: FacetCount[];
+  status: FacetCount[];
+  companies: FacetCount[];
+  locations: Array<FacetCount & { label: string }>;
+};
+
+function getFacetCount(counts: FacetCount[] | undefined, value: string): number | null {
+  if (!counts) return null;
+  return counts.find((entry) => entry.value === value)?.count ?? 0;
+}
+
 type SortOption = {
   label: string;
   sort: string;
@@ -50,6 +68,7 @@ const SORT_OPTIONS: SortOption[] = [
   { label: "Title (Z-A)", sort: "title", sortDir: "desc" },
   { label: "Newest First", sort: "created_at", sortDir: "desc" },
   { label: "Oldest First", sort: "created_at", sortDir: "asc" },
+  { label: "Highest Salary", sort: "salary", sortDir: "desc" },
 ];
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50] as const;
@@ -61,10 +80,12 @@ const ATS_PLATFORMS = [
   { value: "WORKDAY", label: "Workday" },
   { value: "ICIMS", label: "iCIMS" },
   { value: "SMARTRECRUITERS", label: "SmartRecruiters" },
+  { value: "ASHBY", label: "Ashby" },
 ] as const;
 
 type QueryState = {
   titleTags: string[];
+  fuzzyTitles: boolean;
   companyFilter: string;
   locationTags: string[];
   statusFilter: StatusFilter;
@@ -76,6 +97,7 @@ type QueryState = {
 
 const DEFAULT_STATE: QueryState = {
   titleTags: [],
+  fuzzyTitles: false,
   companyFilter: "",
   locationTags: [],
   statusFilter: "open",
@@ -93,6 +115,7 @@ function buildSearchParams(state: QueryState, titleTag?: string, locationTag?: s
   } else if (titleTag) {
     params.set("title", titleTag);
   }
+  if (state.fuzzyTitles) params.set("titleFuzzy", "true");
   
   if (state.companyFilter.trim())
     params.set("companyName", state.companyFilter.trim());
@@ -124,6 +147,7 @@ function buildSearchParams(state: QueryState, titleTag?: string, locationTag?: s
 function parseSearchParams(searchParams: URLSearchParams): QueryState {
   const titleParam = searchParams.get("title") ?? "";
   const titleTags = titleParam ? titleParam.split(",").map(t => t.trim()).filter(Boolean) : [];
+  const fuzzyTitles = searchParams.get("titleFuzzy") === "true";
   const companyFilter = searchParams.get("companyName") ?? "";
   const locationParam = searchParams.get("location") ?? "";
   const locationTags = locationParam ? locationParam.split(",").map(t => t.trim()).filter(Boolean) : [];
@@ -161,6 +185,7 @@ function parseSearchParams(searchParams: URLSearchParams): QueryState {
 
   return {
     titleTags,
+    fuzzyTitles,
     companyFilter,
     locationTags,
     statusFilter,
@@ -185,9 +210,13 @@ export default function JobSearch() {
   type QueueItem = { cacheKey: string; pageNum: number; state: QueryState };
   const fetchQueueRef = useRef<QueueItem[]>([]);
   const isProcessingRef = useRef(false);
+  // Filters the current facet counts were fetched for
+  const facetsKeyRef = useRef<string | null>(null);
 
   const [titleTags, setTitleTags] = useState<string[]>(DEFAULT_STATE.titleTags);
+  const [fuzzyTitles, setFuzzyTitles] = useState(DEFAULT_STATE.fuzzyTitles);
   const [companyFilter, setCompanyFilter] = useState(DEFAULT_STATE.companyFilter);
+  const [companySuggestions, setCompanySuggestions] = useState<string[]>([]);
   const [locationTags, setLocationTags] = useState<string[]>(DEFAULT_STATE.locationTags);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>(DEFAULT_STATE.statusFilter);
   const [sortOption, setSortOption] = useState(DEFAULT_STATE.sortOption);
@@ -195,6 +224,7 @@ export default function JobSearch() {
   const [pageSize, setPageSize] = useState(DEFAULT_STATE.pageSize);
   const [selectedPlatforms, setSelectedPlatforms] = useState<string[]>(DEFAULT_STATE.selectedPlatforms);
   const [platformsDropdownOpen, setPlatformsDropdownOpen] = useState(false);
+  const [facets, setFacets] = useState<JobFacets | null>(null);
 
   const [data, setData] = useState<ApiResponse>({
     items: [],
@@ -267,6 +297,7 @@ export default function JobSearch() {
     initialized.current = true;
     const parsed = parseSearchParams(new URLSearchParams(searchParams.toString()));
     setTitleTags(parsed.titleTags);
+    setFuzzyTitles(parsed.fuzzyTitles);
     setCompanyFilter(parsed.companyFilter);
     setLocationTags(parsed.locationTags);
     setStatusFilter(parsed.statusFilter);
@@ -282,6 +313,26 @@ export default function JobSearch() {
     fetchLatestUpdatedAt();
   }, []);
 
+  // Company autocomplete, debounced while typing
+  useEffect(() => {
+    const query = companyFilter.trim();
+    const timer = setTimeout(async () => {
+      if (query.length < 2) {
+        setCompanySuggestions([]);
+        return;
+      }
+      try {
+        const res = await fetch(`/api/companies/suggest?q=${encodeURIComponent(query)}`);
+        if (!res.ok) return;
+        const payload = (await res.json()) as { items: Array<{ name: string }> };
+        setCompanySuggestions(payload.items.map((item) => item.name));
+      } catch {
+        // Suggestions are optional
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [companyFilter]);
+
   // Fetch tracked jobs when user logs in
   useEffect(() => {
     if (user?.uid) {
@@ -391,6 +442,7 @@ export default function JobSearch() {
   ) {
     const nextState: QueryState = {
       titleTags,
+      fuzzyTitles,
       companyFilter,
       locationTags,
       statusFilter,
@@ -401,8 +453,9 @@ export default function JobSearch() {
       page: nextPage,
     };
 
-    // Build cache key
-    const cacheKey = `${nextState.titleTags.join(',')}_${nextState.companyFilter}_${nextState.locationTags.join(',')}_${nextState.statusFilter}_${nextState.sortOption.sort}_${nextState.sortOption.sortDir}_${nextPage}_${nextState.pageSize}_${nextState.selectedPlatforms.join(',')}`;
+    fetchFacets(nextState);
+
+    const cacheKey = getCacheKey(nextState, nextPage);
     
     // Check cache first
     const cached = cacheRef.current.get(cacheKey);
@@ -413,6 +466,7 @@ export default function JobSearch() {
       setPage(nextState.page);
       setPageSize(nextState.pageSize);
       setTitleTags(nextState.titleTags);
+      setFuzzyTitles(nextState.fuzzyTitles);
       setCompanyFilter(nextState.companyFilter);
       setLocationTags(nextState.locationTags);
       setStatusFilter(nextState.statusFilter);
@@ -452,6 +506,9 @@ export default function JobSearch() {
       if (nextState.titleTags.length > 0) {
         params.set("title", nextState.titleTags.join(","));
       }
+      if (nextState.fuzzyTitles) {
+        params.set("titleFuzzy", "true");
+      }
       
       if (nextState.companyFilter.trim()) {
         params.set("companyName", nextState.companyFilter.trim());
@@ -476,10 +533,19 @@ export default function JobSearch() {
         params.set("platforms", nextState.selectedPlatforms.join(","));
       }
 
+      const pageCursor = getPageCursor(nextState, nextPage);
+      if (pageCursor) {
+        params.set("cursor", pageCursor.cursor);
+        params.set("skipCount", "true");
+      }
+
       // Single API call instead of cartesian product
       const res = await fetch(`/api/jobs?${params.toString()}`);
       if (!res.ok) throw new Error(`Request failed: ${res.status}`);
       const result = (await res.json()) as ApiResponse;
+      if (pageCursor && result.total === -1) {
+        result.total = pageCursor.total;
+      }
 
       // Store in cache
       cacheRef.current.set(cacheKey, result);
@@ -498,6 +564,7 @@ export default function JobSearch() {
       setPage(nextState.page);
       setPageSize(nextState.pageSize);
       setTitleTags(nextState.titleTags);
+      setFuzzyTitles(nextState.fuzzyTitles);
       setCompanyFilter(nextState.companyFilter);
       setLocationTags(nextState.locationTags);
       setStatusFilter(nextState.statusFilter);
@@ -560,6 +627,7 @@ export default function JobSearch() {
         console.log(`⏳ Loading page ${pageNum} from queue (${fetchQueueRef.current.length} remaining)...`);
         const params = new URLSearchParams();
         if (state.titleTags.length > 0) params.set("title", state.titleTags.join(","));
+        if (state.fuzzyTitles) params.set("titleFuzzy", "true");
         if (state.companyFilter.trim()) params.set("companyName", state.companyFilter.trim());
         if (state.locationTags.length > 0) params.set("location", state.locationTags.join(","));
         if (state.statusFilter === "open") params.set("status", "ACTIVE");
@@ -568,10 +636,22 @@ export default function JobSearch() {
         params.set("pageSize", String(state.pageSize));
         params.set("sort", state.sortOption.sort);
         params.set("sortDir", state.sortOption.sortDir);
+        if (state.selectedPlatforms.length > 0 && state.selectedPlatforms.length < ATS_PLATFORMS.length) {
+          params.set("platforms", state.selectedPlatforms.join(","));
+        }
+        // Pages are queued in order, so the previous page's cursor is usually cached
+        const pageCursor = getPageCursor(state, pageNum);
+        if (pageCursor) {
+          params.set("cursor", pageCursor.cursor);
+          params.set("skipCount", "true");
+        }
         
         const res = await fetch(`/api/jobs?${params.toString()}`);
         if (res.ok) {
-          const result = await res.json();
+          const result = (await res.json()) as ApiResponse;
+          if (pageCursor && result.total === -1) {
+            result.total = pageCursor.total;
+          }
           cacheRef.current.set(cacheKey, result);
           console.log(`✅ Page ${pageNum} loaded (${result.items.length} jobs)`);
           
@@ -592,6 +672,20 @@ export default function JobSearch() {
     console.log(`🏁 Queue processing complete`);
   }
 
+  function getCacheKey(state: QueryState, pageNum: number) {
+    return `${state.titleTags.join(',')}_${state.fuzzyTitles}_${state.companyFilter}_${state.locationTags.join(',')}_${state.statusFilter}_${state.sortOption.sort}_${state.sortOption.sortDir}_${pageNum}_${state.pageSize}_${state.selectedPlatforms.join(',')}`;
+  }
+
+  // A cached neighbouring page's cursor lets the API seek straight to this page
+  // instead of skipping every row before it, so deep pages cost the same as page 2
+  function getPageCursor(state: QueryState, pageNum: number): { cursor: string; total: number } | null {
+    const previous = cacheRef.current.get(getCacheKey(state, pageNum - 1));
+    if (previous?.nextCursor) return { cursor: previous.nextCursor, total: previous.total };
+    const following = cacheRef.current.get(getCacheKey(state, pageNum + 1));
+    if (following?.prevCursor) return { cursor: following.prevCursor, total: following.total };
+    return null;
+  }
+
   // Add pages to the fetch queue
   function addToQueue(state: QueryState, currentPage: number) {
     const maxPage = Math.ceil(data.total / state.pageSize);
@@ -603,7 +697,7 @@ export default function JobSearch() {
       const nextPageNum = currentPage + i;
       if (nextPageNum > maxPage) break;
       
-      const cacheKey = `${state.titleTags.join(',')}_${state.companyFilter}_${state.locationTags.join(',')}_${state.statusFilter}_${state.sortOption.sort}_${state.sortOption.sortDir}_${nextPageNum}_${state.pageSize}`;
+      const cacheKey = getCacheKey(state, nextPageNum);
       
       // Skip if already cached
       if (cacheRef.current.has(cacheKey)) {
@@ -634,6 +728,27 @@ export default function JobSearch() {
     addToQueue(state, currentPage);
   }
 
+  // Counts next to each filter option; only refetched when the filters change
+  async function fetchFacets(state: QueryState) {
+    const params = buildSearchParams(state);
+    ["page", "pageSize", "sort", "sortDir"].forEach((key) => params.delete(key));
+    const key = params.toString();
+    if (facetsKeyRef.current === key) return;
+    facetsKeyRef.current = key;
+
+    try {
+      const res = await fetch(`/api/jobs/facets?${key}`);
+      if (!res.ok) return;
+      const payload = (await res.json()) as JobFacets;
+      // A newer search may have started while this one was in flight
+      if (facetsKeyRef.current === key) {
+        setFacets(payload);
+      }
+    } catch {
+      // Counts are optional
+    }
+  }
+
   async function fetchLatestUpdatedAt() {
     try {
       const res = await fetch(`/api/jobs/last-updated`);
@@ -649,6 +764,14 @@ export default function JobSearch() {
     }
   }
 
+  const statusCounts = useMemo(() => {
+    if (!facets) return null;
+    const open = getFacetCount(facets.status, "ACTIVE") ?? 0;
+    const closed = getFacetCount(facets.status, "CLOSED") ?? 0;
+    const both = facets.status.reduce((sum, entry) => sum + entry.count, 0);
+    return { open, closed, both };
+  }, [facets]);
+
   const activeFiltersCount = useMemo(() => {
     let count = 0;
     if (titleTags.length > 0) count++;
@@ -659,6 +782,7 @@ export default function JobSearch() {
 
   function resetFilters() {
     setTitleTags(DEFAULT_STATE.titleTags);
+    setFuzzyTitles(DEFAULT_STATE.fuzzyTitles);
     setCompanyFilter(DEFAULT_STATE.companyFilter);
     setLocationTags(DEFAULT_STATE.locationTags);
     setStatusFilter(DEFAULT_STATE.statusFilter);
@@ -976,17 +1100,41 @@ export default function JobSearch() {
                     }
                     setTitleTags(newTags);
                   }}
-                  placeholder='Job titles (Press "Enter" to add)'
+                  placeholder='Job titles (Press "Enter" to add, -word to exclude)'
+                  allowNegative
                   className="flex-1 md:flex-[2] min-w-[180px]"
                 />
+                <label
+                  className="mt-1 flex w-fit cursor-pointer select-none items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400"
+                  title="Also match close misspellings of each title word"
+                >
+                  <input
+                    type="checkbox"
+                    className="accent-teal-600"
+                    checked={fuzzyTitles}
+                    onChange={(e) => {
+                      setFuzzyTitles(e.target.checked);
+                      if (titleTags.length > 0) {
+                        fetchJobs(1, { overrideState: { fuzzyTitles: e.target.checked } });
+                      }
+                    }}
+                  />
+                  Typo-tolerant
+                </label>
               </div>
               <input
                 className="h-10 w-full md:w-32 rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-700 px-3 text-sm text-slate-900 dark:text-slate-100 outline-none transition focus:border-teal-300 focus:bg-white dark:focus:bg-slate-600 focus:ring-2 focus:ring-teal-100 dark:focus:ring-teal-900"
                 placeholder="Company"
+                list="company-suggestions"
                 value={companyFilter}
                 onChange={(e) => setCompanyFilter(e.target.value)}
                 onKeyDown={(e) => e.key === "Enter" && fetchJobs(1)}
               />
+              <datalist id="company-suggestions">
+                {companySuggestions.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
               <div className="relative flex-1 min-w-[180px]">
                 {showLimitWarning.show && showLimitWarning.type === 'location' && (
                   <div className="absolute -top-10 left-0 right-0 z-10 animate-fade-in">
@@ -1005,7 +1153,8 @@ export default function JobSearch() {
                     }
                     setLocationTags(newTags);
                   }}
-                  placeholder='Locations (Press "Enter" to add)'
+                  placeholder='Locations (Press "Enter" to add, -place to exclude)'
+                  allowNegative
                   className="flex-1 min-w-[180px]"
                   icon="location"
                 />
@@ -1081,9 +1230,9 @@ export default function JobSearch() {
                   fetchJobs(1, { overrideState: { statusFilter: newStatus } });
                 }}
               >
-                <option value="open">● Open Jobs</option>
-                <option value="closed">● Closed Jobs</option>
-                <option value="both">● All Jobs</option>
+                <option value="open">● Open Jobs{statusCounts ? ` (${statusCounts.open.toLocaleString()})` : ""}</option>
+                <option value="closed">● Closed Jobs{statusCounts ? ` (${statusCounts.closed.toLocaleString()})` : ""}</option>
+                <option value="both">● All Jobs{statusCounts ? ` (${statusCounts.both.toLocaleString()})` : ""}</option>
               </select>
               <svg className="absolute right-2 top-1/2 h-4 w-4 -translate-y-1/2 pointer-events-none text-current opacity-60" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -1119,6 +1268,7 @@ export default function JobSearch() {
                   <div className="absolute left-0 top-full mt-1 z-20 w-48 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 py-1 shadow-lg">
                     {ATS_PLATFORMS.map((platform) => {
                       const isSelected = selectedPlatforms.includes(platform.value);
+                      const platformCount = getFacetCount(facets?.sourcePlatform, platform.value);
                       return (
                         <button
                           key={platform.value}
@@ -1148,6 +1298,11 @@ export default function JobSearch() {
                             )}
                           </div>
                           <span>{platform.label}</span>
+                          {platformCount !== null && (
+                            <span className="ml-auto text-xs text-slate-400 dark:text-slate-500">
+                              {platformCount.toLocaleString()}
+                            </span>
+                          )}
                         </button>
                       );
                     })}
@@ -1228,6 +1383,52 @@ export default function JobSearch() {
               </span>
             )}
           </div>
+
+          {/* Top companies / locations for the current filters */}
+          {facets && (facets.companies.length > 0 || facets.locations.length > 0) && (
+            <div className={`mt-2 flex-wrap items-center gap-1.5 text-xs ${filtersExpanded ? 'hidden md:flex' : 'hidden'}`}>
+              {!companyFilter && facets.companies.length > 0 && (
+                <>
+                  <span className="text-slate-400 dark:text-slate-500">Companies:</span>
+                  {facets.companies.slice(0, 6).map((company) => (
+                    <button
+                      key={company.value}
+                      type="button"
+                      onClick={() => {
+                        setCompanyFilter(company.value);
+                        fetchJobs(1, { overrideState: { companyFilter: company.value } });
+                      }}
+                      className="rounded-full bg-slate-100 dark:bg-slate-700 px-2 py-0.5 text-slate-600 dark:text-slate-300 transition hover:bg-teal-50 hover:text-teal-700 dark:hover:bg-teal-900/30 dark:hover:text-teal-400"
+                    >
+                      {company.value} <span className="text-slate-400 dark:text-slate-500">{company.count.toLocaleString()}</span>
+                    </button>
+                  ))}
+                </>
+              )}
+              {locationTags.length < 5 && facets.locations.length > 0 && (
+                <>
+                  <span className="ml-2 text-slate-400 dark:text-slate-500">Locations:</span>
+                  {facets.locations
+                    .filter((location) => !locationTags.includes(location.value))
+                    .slice(0, 6)
+                    .map((location) => (
+                      <button
+                        key={location.label}
+                        type="button"
+                        onClick={() => {
+                          const newTags = [...locationTags, location.value];
+                          setLocationTags(newTags);
+                          fetchJobs(1, { overrideState: { locationTags: newTags } });
+                        }}
+                        className="rounded-full bg-slate-100 dark:bg-slate-700 px-2 py-0.5 text-slate-600 dark:text-slate-300 transition hover:bg-teal-50 hover:text-teal-700 dark:hover:bg-teal-900/30 dark:hover:text-teal-400"
+                      >
+                        {location.label} <span className="text-slate-400 dark:text-slate-500">{location.count.toLocaleString()}</span>
+                      </button>
+                    ))}
+                </>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Bulk Mode Actions Bar */}
@@ -8,14 +8,21 @@ type TagInputProps = {
   placeholder?: string;
   className?: string;
   icon?: "search" | "location";
+  // Tags starting with "-" exclude matches; clicking a tag flips it
+  allowNegative?: boolean;
 };
 
+function isNegativeTag(tag: string) {
+  return tag.length > 1 && tag.startsWith("-");
+}
+
 export function TagInput({ 
   tags, 
   onTagsChange, 
   placeholder = "Add keyword...", 
   className = "",
-  icon = "search" 
+  icon = "search",
+  allowNegative = false,
 }: TagInputProps) {
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -39,6 +46,12 @@ export function TagInput({
     onTagsChange(tags.filter((tag) => tag !== tagToRemove));
   };
 
+  const toggleNegative = (tag: string) => {
+    const flipped = isNegativeTag(tag) ? tag.slice(1) : `-${tag}`;
+    if (tags.includes(flipped)) return;
+    onTagsChange(tags.map((existing) => (existing === tag ? flipped : existing)));
+  };
+
   return (
     <div className={`flex flex-wrap gap-1.5 rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-700 p-1.5 transition focus-within:border-teal-300 dark:focus-within:border-teal-600 focus-within:bg-white dark:focus-within:bg-slate-600 focus-within:ring-2 focus-within:ring-teal-100 dark:focus-within:ring-teal-900 ${className}`}>
       {/* Icon */}
@@ -56,23 +69,43 @@ export function TagInput({
       </div>
       
       {/* Tags */}
-      {tags.map((tag) => (
-        <span
-          key={tag}
-          className="inline-flex items-center gap-1 h-7 rounded-md bg-teal-100 dark:bg-teal-900/50 px-2 text-sm font-medium text-teal-700 dark:text-teal-400 animate-fade-in"
-        >
-          {tag}
-          <button
-            type="button"
-            onClick={() => removeTag(tag)}
-            className="ml-0.5 rounded-full p-0.5 hover:bg-teal-200 dark:hover:bg-teal-800 focus:outline-none"
+      {tags.map((tag) => {
+        const negative = allowNegative && isNegativeTag(tag);
+        return (
+          <span
+            key={tag}
+            className={`inline-flex items-center gap-1 h-7 rounded-md px-2 text-sm font-medium animate-fade-in ${
+              negative
+                ? "bg-rose-100 dark:bg-rose-900/50 text-rose-700 dark:text-rose-400"
+                : "bg-teal-100 dark:bg-teal-900/50 text-teal-700 dark:text-teal-400"
+            }`}
           >
-            <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
-        </span>
-      ))}
+            {allowNegative ? (
+              <button
+                type="button"
+                onClick={() => toggleNegative(tag)}
+                className="focus:outline-none"
+                title={negative ? "Excluded - click to include" : "Click to exclude"}
+              >
+                {negative ? <span className="line-through">{tag.slice(1)}</span> : tag}
+              </button>
+            ) : (
+              tag
+            )}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className={`ml-0.5 rounded-full p-0.5 focus:outline-none ${
+                negative ? "hover:bg-rose-200 dark:hover:bg-rose-800" : "hover:bg-teal-200 dark:hover:bg-teal-800"
+              }`}
+            >
+              <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </span>
+        );
+      })}
       
       {/* Input */}
       <div className="flex items-center flex-1 min-w-[100px] h-7">
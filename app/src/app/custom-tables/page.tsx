@@ -23,8 +23,11 @@ import {
   addStarredJob,
   removeStarredJob,
   getUserStarredJobs,
+  updateTableAlert,
+  type AlertFrequency,
   type CustomTable,
 } from "@/lib/firestore";
+import { getSavedSearchParams } from "@/lib/saved-search";
 
 type Job = {
   id: string;
@@ -86,6 +89,8 @@ export default function CustomTablesPage() {
   const [jobsLoading, setJobsLoading] = useState(false);
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
   const [totalJobs, setTotalJobs] = useState(0);
+  // Newest NEW job IDs from the server (capped), for the per-job badges
+  const [newJobIds, setNewJobIds] = useState<Set<string> | null>(null);
   
   // Search, sort, pagination
   const [searchQuery, setSearchQuery] = useState("");
@@ -187,19 +192,8 @@ export default function CustomTablesPage() {
     const fetchJobs = async () => {
       setJobsLoading(true);
       try {
-        const params = new URLSearchParams();
-        
-        // Apply table filters
-        if (selectedTable.titleKeywords.length > 0) {
-          params.set("title", selectedTable.titleKeywords.join(","));
-        }
-        if (selectedTable.locationKeywords.length > 0) {
-          params.set("location", selectedTable.locationKeywords.join(","));
-        }
-        if (selectedTable.companyFilter.trim()) {
-          params.set("companyName", selectedTable.companyFilter.trim());
-        }
-        // Note: Custom tables always query ALL ATS platforms for scalability
+        // Apply table filters (always across ALL ATS platforms)
+        const params = getSavedSearchParams(selectedTable);
 
         // Apply search within results
         if (searchQuery.trim()) {
@@ -233,33 +227,6 @@ export default function CustomTablesPage() {
         if (data.total !== -1) {
           setTotalJobs(data.total || 0);
         }
-        
-        // Update new job count - only on first page load
-        if (page === 1) {
-          let newCount = 0;
-          
-          if (!selectedTable.lastSeenAt) {
-            // If never seen, use the total count directly (all jobs are NEW)
-            newCount = data.total || 0;
-          } else {
-            // Count NEW jobs from current page only (conservative estimate)
-            // This avoids the inflated estimates from extrapolating page 1 percentage to all pages
-            const lastSeen = new Date(selectedTable.lastSeenAt);
-            newCount = data.items.filter((job: Job) => 
-              new Date(job.createdAt) > lastSeen
-            ).length;
-            
-            // Don't extrapolate to avoid inflated estimates
-            // The badge will show "X+ NEW" to indicate there may be more
-          }
-          
-          if (newCount !== selectedTable.newJobCount) {
-            await updateNewJobCount(selectedTable.id, newCount);
-            setCustomTables(prev => 
-              prev.map(t => t.id === selectedTable.id ? { ...t, newJobCount: newCount } : t)
-            );
-          }
-        }
       } catch (error) {
         console.error("Error fetching jobs:", error);
       } finally {
@@ -267,13 +234,43 @@ export default function CustomTablesPage() {
       }
     };
 
+    // Update new job count - only on first page load. The server counts every
+    // match of the table's stored filters, not just this page. A failure only
+    // leaves the badge and highlights as they were.
+    const fetchNewCount = async () => {
+      if (!user) return;
+      try {
+        const token = await user.getIdToken();
+        const response = await fetch(`/api/saved-searches/${selectedTable.id}/new-count`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!response.ok) throw new Error(`New count failed: ${response.status}`);
+        const data = (await response.json()) as { count: number; jobIds: string[] };
+        const newCount = data.count;
+        setNewJobIds(new Set(data.jobIds));
+
+        if (newCount !== selectedTable.newJobCount) {
+          await updateNewJobCount(selectedTable.id, newCount);
+          setCustomTables(prev => 
+            prev.map(t => t.id === selectedTable.id ? { ...t, newJobCount: newCount } : t)
+          );
+        }
+      } catch (error) {
+        console.error("Error counting new jobs:", error);
+      }
+    };
+
     fetchJobs();
-  }, [selectedTable, searchQuery, sortOption, page, pageSize, statusFilter]);
+    if (page === 1) {
+      fetchNewCount();
+    }
+  }, [selectedTable, searchQuery, sortOption, page, pageSize, statusFilter, user]);
   
   // Reset page when table changes
   useEffect(() => {
     setPage(1);
     setSearchQuery("");
+    setNewJobIds(null);
   }, [selectedTableId]);
 
   const handleCreateTable = async () => {
@@ -459,6 +456,35 @@ export default function CustomTablesPage() {
     }
   };
 
+  const handleAlertChange = async (alertFrequency: AlertFrequency) => {
+    if (!selectedTable || !user) return;
+
+    const alertEmail = alertFrequency === "off" ? null : user.email ?? null;
+    if (alertFrequency !== "off" && !alertEmail) {
+      alert("Your account has no email address to send alerts to.");
+      return;
+    }
+    try {
+      await updateTableAlert(selectedTable, alertFrequency, alertEmail);
+      const startsWindow = alertFrequency !== "off" && selectedTable.alertFrequency === "off";
+      setCustomTables(prev =>
+        prev.map(t =>
+          t.id === selectedTable.id
+            ? {
+                ...t,
+                alertFrequency,
+                alertEmail,
+                lastAlertedAt: alertFrequency === "off" ? null : startsWindow ? new Date() : t.lastAlertedAt,
+              }
+            : t
+        )
+      );
+    } catch (error) {
+      console.error("Error updating table alert:", error);
+      alert("Failed to update email alerts. Please try again.");
+    }
+  };
+
   const handleDeleteTable = async () => {
     if (!tableToDelete || deleting) return;
 
@@ -486,6 +512,7 @@ export default function CustomTablesPage() {
     if (!selectedTable) return false;
     // If never seen before, all jobs are NEW
     if (!selectedTable.lastSeenAt) return true;
+    if (newJobIds?.has(job.id)) return true;
     const lastSeen = new Date(selectedTable.lastSeenAt);
     const jobDate = new Date(job.createdAt);
     return jobDate > lastSeen;
@@ -802,6 +829,19 @@ export default function CustomTablesPage() {
                     Seen
                   </button>
                 )}
+                {selectedTable && (
+                  <select
+                    value={selectedTable.alertFrequency}
+                    onChange={(e) => handleAlertChange(e.target.value as AlertFrequency)}
+                    title={selectedTable.alertEmail ? `Email alerts to ${selectedTable.alertEmail}` : "Email alerts"}
+                    className="px-1.5 py-1 text-xs bg-transparent border border-slate-200 dark:border-slate-600 rounded text-slate-600 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-teal-500"
+                  >
+                    <option value="off">Alerts off</option>
+                    <option value="instant">Hourly alerts</option>
+                    <option value="daily">Daily digest</option>
+                    <option value="weekly">Weekly digest</option>
+                  </select>
+                )}
                 <button onClick={() => { if (isLocked) { setUnlockModalOpen(true); } else { setIsLocked(true); } }}
                   className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded transition" title={isLocked ? "Unlock filters" : "Lock filters"}>
                   {isLocked ? (
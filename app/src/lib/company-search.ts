@@ -0,0 +1,54 @@
+import { prisma } from "@/lib/prisma";
+
+export type CompanyMatch = {
+  id: string;
+  name: string;
+  platform: string;
+  score: number;
+};
+
+// Lowercased letters and digits only, so "JP Morgan", "JPMorgan" and
+// "J.P. Morgan" all compare equal
+export function compactName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Companies whose name is close to `query`, best first. A name matches on
+ * trigram similarity (typos, reordered words), on containing the query as a
+ * word ("Morgan" in "JPMorgan Chase & Co."), or on containing it once spacing
+ * and punctuation are ignored. Backed by the pg_trgm index on Company.name.
+ */
+export async function findSimilarCompanies(query: string, limit: number): Promise<CompanyMatch[]> {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return [];
+  }
+  const compact = compactName(trimmed);
+  const compactSql = `regexp_replace(lower(name), '[^a-z0-9]+', '', 'g')`;
+
+  const rows = await prisma.$queryRawUnsafe<Array<{ id: string; name: string; platform: string; score: number }>>(
+    `
+    SELECT id, name, platform::text AS platform,
+      GREATEST(
+        similarity(name, $1),
+        word_similarity($1, name),
+        CASE
+          WHEN $2 = '' THEN 0
+          WHEN ${compactSql} LIKE $2 || '%' THEN 1
+          WHEN ${compactSql} LIKE '%' || $2 || '%' THEN 0.8
+          ELSE 0
+        END
+      )::float8 AS score
+    FROM "Company"
+    WHERE name % $1
+      OR $1 <% name
+      OR ($2 <> '' AND ${compactSql} LIKE '%' || $2 || '%')
+    ORDER BY score DESC, length(name), name
+    LIMIT ${Math.max(1, Math.floor(limit))}
+    `,
+    trimmed,
+    compact
+  );
+  return rows;
+}
@@ -0,0 +1,35 @@
+import { cert, deleteApp, getApps, initializeApp, type App } from "firebase-admin/app";
+
+const ADMIN_APP_NAME = "admin";
+
+/**
+ * Admin SDK app for the service account in FIREBASE_SERVICE_ACCOUNT (the JSON
+ * key file's contents). Server-side only: it bypasses the Firestore rules, so
+ * callers check ownership themselves.
+ */
+export function getFirebaseAdminApp(): App {
+  // Reused across dev-server reloads, which re-run this module
+  const existing = getApps().find((app) => app.name === ADMIN_APP_NAME);
+  if (existing) {
+    return existing;
+  }
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  if (!serviceAccount) {
+    throw new Error("FIREBASE_SERVICE_ACCOUNT is not set");
+  }
+  let credentials: Record<string, string>;
+  try {
+    credentials = JSON.parse(serviceAccount);
+  } catch {
+    throw new Error("FIREBASE_SERVICE_ACCOUNT is not valid JSON");
+  }
+  return initializeApp({ credential: cert(credentials) }, ADMIN_APP_NAME);
+}
+
+// Lets a script exit without waiting on the SDK's open connections
+export async function closeFirebaseAdminApp(): Promise<void> {
+  const existing = getApps().find((app) => app.name === ADMIN_APP_NAME);
+  if (existing) {
+    await deleteApp(existing);
+  }
+}
@@ -4,6 +4,9 @@ import { app } from "./firebase";
 // Get Firestore instance
 const db = getFirestore(app);
 
+// How often a custom table emails its new matches
+export type AlertFrequency = "off" | "instant" | "daily" | "weekly";
+
 export interface CustomTable {
   id: string;
   userId: string;
@@ -14,6 +17,10 @@ export interface CustomTable {
   selectedPlatforms: string[];
   lastSeenAt: Date | null;
   newJobCount: number;
+  alertFrequency: AlertFrequency;
+  alertEmail: string | null;
+  // Jobs created after this are in the next alert
+  lastAlertedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -39,6 +46,9 @@ function docToCustomTable(docId: string, data: any): CustomTable {
     selectedPlatforms: data.selectedPlatforms || ["GREENHOUSE", "LEVER", "WORKDAY", "ICIMS"],
     lastSeenAt: data.lastSeenAt?.toDate() || null,
     newJobCount: data.newJobCount || 0,
+    alertFrequency: data.alertFrequency || "off",
+    alertEmail: data.alertEmail || null,
+    lastAlertedAt: data.lastAlertedAt?.toDate() || null,
     createdAt: data.createdAt?.toDate() || new Date(),
     updatedAt: data.updatedAt?.toDate() || new Date(),
   };
@@ -98,6 +108,9 @@ export async function createCustomTable(input: CreateCustomTableInput): Promise<
     selectedPlatforms: input.selectedPlatforms,
     lastSeenAt: null,
     newJobCount: 0,
+    alertFrequency: "off",
+    alertEmail: null,
+    lastAlertedAt: null,
     createdAt: now,
     updatedAt: now,
   });
@@ -159,6 +172,28 @@ export async function updateNewJobCount(tableId: string, count: number): Promise
   });
 }
 
+// Set a table's email alert. Switching alerts on starts the window now, so the
+// first alert doesn't replay every existing match; changing the frequency
+// keeps it.
+export async function updateTableAlert(
+  table: Pick<CustomTable, "id" | "alertFrequency">,
+  alertFrequency: AlertFrequency,
+  alertEmail: string | null
+): Promise<void> {
+  const docRef = doc(db, "customTables", table.id);
+  const updates: Record<string, unknown> = {
+    alertFrequency,
+    alertEmail,
+    updatedAt: Timestamp.now(),
+  };
+  if (alertFrequency === "off") {
+    updates.lastAlertedAt = null;
+  } else if (table.alertFrequency === "off") {
+    updates.lastAlertedAt = Timestamp.now();
+  }
+  await updateDoc(docRef, updates);
+}
+
 // ============================================================
 // APPLICATION TRACKING
 // ============================================================
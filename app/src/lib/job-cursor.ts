@@ -0,0 +1,30 @@
+export type SortDirection = "asc" | "desc";
+
+// Position after (or, with `before`, ahead of) one row in one sort order
+export type JobCursor = {
+  sort: string;
+  dir: SortDirection;
+  value: string | null;
+  id: string;
+  before?: boolean;
+};
+
+// Opaque nextCursor / prevCursor values for /api/jobs
+export function encodeCursor(cursor: JobCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Null for anything that isn't a cursor encodeCursor produced
+export function decodeCursor(raw: string): JobCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    const valid =
+      typeof cursor?.sort === "string" &&
+      (cursor.dir === "asc" || cursor.dir === "desc") &&
+      (typeof cursor.value === "string" || cursor.value === null) &&
+      typeof cursor.id === "string";
+    return valid ? cursor : null;
+  } catch {
+    return null;
+  }
+}
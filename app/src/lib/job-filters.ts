@@ -0,0 +1,376 @@
+import { findSimilarCompanies } from "@/lib/company-search";
+import { parseJobQuery, queryToWhere } from "@/lib/job-query";
+
+// Fuzzy companyName matches kept on top of the substring match, best first
+const COMPANY_MATCH_LIMIT = 50;
+
+// Conditions Prisma can't express, applied by buildWhereSql alongside `where`
+export type SqlFilters = {
+  // websearch_to_tsquery text matched against the search vector
+  search?: string;
+  // Parsed title query whose words also match close misspellings
+  fuzzyTitle?: Record<string, unknown>;
+};
+
+// The where shapes queryToWhere (job-query.ts) and the companyName filter produce
+type TextCondition = {
+  AND?: TextCondition[];
+  OR?: TextCondition[];
+  NOT?: TextCondition;
+  title?: { contains?: string };
+  location?: { contains?: string } | null;
+  company?: { name?: { contains?: string } };
+  companyId?: { in?: string[] };
+};
+
+// Every condition shape buildJobFilters pushes onto `where.AND`
+type JobCondition = TextCondition & {
+  duplicateOfId?: null;
+  status?: string;
+  employmentType?: string;
+  locationType?: string;
+  salaryAnnualMax?: { gte?: number };
+  salaryCurrency?: string;
+  postedAt?: { gte?: Date };
+  sourcePlatform?: { in?: string[] };
+  company?: { name?: { in?: string[] } };
+  locations?: { some?: { countryCode?: { in?: string[] }; region?: { in?: string[] } } };
+  createdAt?: { gt?: Date; gte?: Date; lte?: Date };
+  lastSeenAt?: { gte?: Date };
+};
+
+export type JobFilters = {
+  // Prisma where object: { AND: [...] }
+  where: Record<string, unknown>;
+  sqlFilters: SqlFilters;
+};
+
+function getStringArray(values: string[]): string[] {
+  return values
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+// `%` and `_` in user input match literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Parses the job board's filter query parameters (shared by /api/jobs and
+ * /api/jobs/facets) into a Prisma where object plus the conditions only the
+ * raw SQL path can apply.
+ */
+export async function buildJobFilters(searchParams: URLSearchParams): Promise<JobFilters> {
+  // Full-text search over title / description / requirements (websearch syntax:
+  // "exact phrase", -exclude, or)
+  const q = searchParams.get("q")?.trim();
+  const title = searchParams.get("title")?.trim();
+  // Match title terms on trigram word similarity as well as substrings
+  const titleFuzzy = searchParams.get("titleFuzzy") === "true";
+  const location = searchParams.get("location")?.trim();
+  // ISO country codes / region codes or names, matched against parsed JobLocation rows
+  const countries = getStringArray(searchParams.getAll("country")).map((value) => value.toUpperCase());
+  const regions = getStringArray(searchParams.getAll("region"));
+  const employmentType = searchParams.get("employmentType")?.trim();
+  const locationType = searchParams.get("locationType")?.trim();
+  const postedAfter = searchParams.get("postedAfter")?.trim();
+  // Yearly pay, compared against the top of each job's range converted to a year
+  const minSalary = Number.parseInt(searchParams.get("minSalary") ?? "", 10);
+  const salaryCurrency = searchParams.get("salaryCurrency")?.trim().toUpperCase();
+  const companyName = searchParams.get("companyName")?.trim();
+  const status = searchParams.get("status")?.trim();
+  const platforms = searchParams.get("platforms")?.trim();
+
+  const companies = getStringArray(searchParams.getAll("company"));
+
+  const where: Record<string, unknown> = { AND: [] as unknown[] };
+  const and = where.AND as unknown[];
+  const sqlFilters: SqlFilters = { search: q || undefined };
+
+  // Postings linked to the same job on another board are never listed twice
+  and.push({ duplicateOfId: null });
+
+  // Both use the query grammar in job-query.ts: comma-separated tags, quotes,
+  // -exclude, OR, parentheses and company: / loc: / title: prefixes
+  const titleQuery = title ? parseJobQuery(title, "title") : null;
+  if (titleQuery && titleFuzzy) {
+    sqlFilters.fuzzyTitle = queryToWhere(titleQuery);
+  } else if (titleQuery) {
+    and.push(queryToWhere(titleQuery));
+  }
+
+  const locationQuery = location ? parseJobQuery(location, "location") : null;
+  if (locationQuery) {
+    and.push(queryToWhere(locationQuery));
+  }
+
+  if (countries.length > 0 || regions.length > 0) {
+    // Both must hold for the same location, so country=US&region=WA skips Western Australia
+    and.push({
+      locations: {
+        some: {
+          ...(countries.length > 0 ? { countryCode: { in: countries } } : {}),
+          ...(regions.length > 0 ? { region: { in: regions, mode: "insensitive" } } : {}),
+        },
+      },
+    });
+  }
+
+  if (employmentType) {
+    and.push({ employmentType });
+  }
+
+  if (locationType) {
+    and.push({ locationType });
+  }
+
+  if (postedAfter) {
+    const date = new Date(postedAfter);
+    if (!Number.isNaN(date.getTime())) {
+      and.push({ postedAt: { gte: date } });
+    }
+  }
+
+  if (Number.isFinite(minSalary) && minSalary > 0) {
+    and.push({ salaryAnnualMax: { gte: minSalary } });
+  }
+
+  if (salaryCurrency) {
+    and.push({ salaryCurrency });
+  }
+
+  if (companies.length > 0) {
+    and.push({ company: { name: { in: companies } } });
+  }
+
+  if (companyName) {
+    // Every company containing the text, plus close matches by similarity so
+    // "Jp Morgan" still finds "JPMorgan Chase & Co."
+    const matches = await findSimilarCompanies(companyName, COMPANY_MATCH_LIMIT);
+    and.push({
+      OR: [
+        { company: { name: { contains: companyName, mode: "insensitive" } } },
+        ...(matches.length > 0 ? [{ companyId: { in: matches.map((match) => match.id) } }] : []),
+      ],
+    });
+  }
+
+  if (status) {
+    // Map URL status values to Prisma enum values
+    const statusMap: Record<string, string | undefined> = {
+      'open': 'ACTIVE',
+      'closed': 'CLOSED',
+      'both': undefined, // Don't filter by status
+    };
+    const mappedStatus = statusMap[status.toLowerCase()];
+    if (mappedStatus) {
+      and.push({ status: mappedStatus });
+    }
+  }
+
+  if (platforms) {
+    const platformList = platforms.split(',').map(p => p.trim()).filter(Boolean);
+    if (platformList.length > 0) {
+      and.push({ sourcePlatform: { in: platformList } });
+    }
+  }
+
+  return { where, sqlFilters };
+}
+
+// Translates the Prisma where object from buildJobFilters into SQL, for the raw
+// count, search and facet queries. Every condition shape pushed onto `and`
+// needs a case here.
+export function buildWhereSql(
+  where: JobFilters["where"] | undefined,
+  filters: SqlFilters = {}
+): { whereSQL: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  let paramIndex = 1;
+
+  if (filters.search) {
+    conditions.push(`"Job"."searchVector" @@ websearch_to_tsquery('english', $${paramIndex})`);
+    params.push(filters.search);
+    paramIndex++;
+  }
+
+  const addParam = (value: unknown): string => {
+    params.push(value);
+    return `$${paramIndex++}`;
+  };
+
+  // Text conditions from the query grammar (job-query.ts): nested AND / OR /
+  // NOT over title, location and company-name substrings. With fuzzyTitles a
+  // single title word also matches close misspellings (`<%` is pg_trgm word
+  // similarity, served by the title trigram index).
+  const textMatchSql = (condition: TextCondition, fuzzyTitles = false): string | null => {
+    if (condition.AND || condition.OR) {
+      const parts = (condition.AND ?? condition.OR ?? [])
+        .map((child) => textMatchSql(child, fuzzyTitles))
+        .filter(Boolean);
+      if (parts.length === 0) {
+        return null;
+      }
+      return `(${parts.join(condition.AND ? " AND " : " OR ")})`;
+    }
+    if (condition.NOT) {
+      const inner = textMatchSql(condition.NOT, fuzzyTitles);
+      return inner ? `NOT (${inner})` : null;
+    }
+    if (condition.title?.contains) {
+      const value = condition.title.contains;
+      const ilike = `title ILIKE ${addParam(`%${escapeLike(value)}%`)}`;
+      return fuzzyTitles && !/\s/.test(value) ? `(${ilike} OR ${addParam(value)} <% title)` : ilike;
+    }
+    if ("location" in condition && condition.location === null) {
+      return `location IS NULL`;
+    }
+    if (condition.location?.contains) {
+      return `location ILIKE ${addParam(`%${escapeLike(condition.location.contains)}%`)}`;
+    }
+    if (condition.company?.name?.contains) {
+      return `EXISTS (
+        SELECT 1 FROM "Company" c
+        WHERE c.id = "Job"."companyId"
+        AND c.name ILIKE ${addParam(`%${escapeLike(condition.company.name.contains)}%`)}
+      )`;
+    }
+    if (condition.companyId?.in) {
+      return `"companyId" = ANY(${addParam(condition.companyId.in)}::text[])`;
+    }
+    return null;
+  };
+
+  if (filters.fuzzyTitle) {
+    const sql = textMatchSql(filters.fuzzyTitle, true);
+    if (sql) {
+      conditions.push(sql);
+    }
+  }
+
+  for (const condition of (where?.AND ?? []) as JobCondition[]) {
+    if ("duplicateOfId" in condition && condition.duplicateOfId === null) {
+      conditions.push(`"duplicateOfId" IS NULL`);
+    }
+
+    if (condition.status) {
+      conditions.push(`status = $${paramIndex}::"JobStatus"`);
+      params.push(condition.status);
+      paramIndex++;
+    }
+    
+    if (condition.employmentType) {
+      conditions.push(`"employmentType" = $${paramIndex}::"EmploymentType"`);
+      params.push(condition.employmentType);
+      paramIndex++;
+    }
+    
+    if (condition.locationType) {
+      conditions.push(`"locationType" = $${paramIndex}::"LocationType"`);
+      params.push(condition.locationType);
+      paramIndex++;
+    }
+    
+    if (condition.salaryAnnualMax?.gte) {
+      conditions.push(`"salaryAnnualMax" >= $${paramIndex}`);
+      params.push(condition.salaryAnnualMax.gte);
+      paramIndex++;
+    }
+
+    if (condition.salaryCurrency) {
+      conditions.push(`"salaryCurrency" = $${paramIndex}`);
+      params.push(condition.salaryCurrency);
+      paramIndex++;
+    }
+
+    if (condition.postedAt?.gte) {
+      conditions.push(`"postedAt" >= $${paramIndex}`);
+      params.push(condition.postedAt.gte);
+      paramIndex++;
+    }
+    
+    if (condition.sourcePlatform?.in) {
+      const platforms = condition.sourcePlatform.in;
+      const placeholders = platforms.map((_, i) => `$${paramIndex + i}::"SourcePlatform"`).join(', ');
+      conditions.push(`"sourcePlatform" IN (${placeholders})`);
+      params.push(...platforms);
+      paramIndex += platforms.length;
+    }
+    
+    // Title / location query grammar
+    const isTextMatch =
+      condition.AND || condition.OR || condition.NOT || condition.title || "location" in condition;
+    if (isTextMatch || condition.company?.name?.contains) {
+      const sql = textMatchSql(condition);
+      if (sql) {
+        conditions.push(sql);
+      }
+    }
+
+    if (condition.companyId?.in) {
+      conditions.push(`"companyId" = ANY($${paramIndex}::text[])`);
+      params.push(condition.companyId.in);
+      paramIndex++;
+    }
+
+    if (condition.company?.name?.in) {
+      const companyNames = condition.company.name.in;
+      conditions.push(`EXISTS (
+        SELECT 1 FROM "Company" c 
+        WHERE c.id = "Job"."companyId" 
+        AND c.name = ANY($${paramIndex}::text[])
+      )`);
+      params.push(companyNames);
+      paramIndex++;
+    }
+    
+    if (condition.locations?.some) {
+      const locationParts: string[] = [];
+      if (condition.locations.some.countryCode?.in) {
+        locationParts.push(`l."countryCode" = ANY($${paramIndex}::text[])`);
+        params.push(condition.locations.some.countryCode.in);
+        paramIndex++;
+      }
+      if (condition.locations.some.region?.in) {
+        locationParts.push(`upper(l.region) = ANY($${paramIndex}::text[])`);
+        params.push(condition.locations.some.region.in.map((region: string) => region.toUpperCase()));
+        paramIndex++;
+      }
+      conditions.push(`EXISTS (
+        SELECT 1 FROM "JobLocation" l
+        WHERE l."jobId" = "Job".id
+        ${locationParts.map((part) => `AND ${part}`).join(" ")}
+      )`);
+    }
+
+    if (condition.createdAt?.gte) {
+      conditions.push(`"createdAt" >= $${paramIndex}`);
+      params.push(condition.createdAt.gte);
+      paramIndex++;
+    }
+
+    if (condition.createdAt?.gt) {
+      conditions.push(`"createdAt" > $${paramIndex}`);
+      params.push(condition.createdAt.gt);
+      paramIndex++;
+    }
+
+    if (condition.createdAt?.lte) {
+      conditions.push(`"createdAt" <= $${paramIndex}`);
+      params.push(condition.createdAt.lte);
+      paramIndex++;
+    }
+    
+    if (condition.lastSeenAt?.gte) {
+      conditions.push(`"lastSeenAt" >= $${paramIndex}`);
+      params.push(condition.lastSeenAt.gte);
+      paramIndex++;
+    }
+  }
+
+  const whereSQL = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return { whereSQL, params };
+}
@@ -0,0 +1,241 @@
+// Query grammar for the title and location filters:
+//
+//   software engineer          both words (implicit AND)
+//   "machine learning"         exact phrase
+//   -senior  -"staff engineer" exclude
+//   intern OR co-op            either
+//   (backend OR platform) -manager
+//   company:stripe  loc:"new york"  title:intern
+//
+// Commas separate tags: positive tags are OR'd together, and a tag that is
+// only an exclusion ("-senior") applies to all of them. Consecutive location
+// words form one place name. Unbalanced quotes and parentheses are closed at
+// the end of the input rather than rejected.
+
+export type QueryField = "title" | "company" | "location";
+
+export type QueryNode =
+  | { type: "term"; field: QueryField; value: string }
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode };
+
+const FIELD_PREFIXES: Record<string, QueryField> = {
+  title: "title",
+  company: "company",
+  loc: "location",
+  location: "location",
+};
+
+type Token =
+  | { type: "lparen" | "rparen" | "comma" | "or" | "not" }
+  | { type: "field"; field: QueryField }
+  | { type: "word" | "phrase"; value: string };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  // A "-" or field prefix only counts at the start of a term
+  let atTermStart = true;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+      atTermStart = true;
+      continue;
+    }
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char === "(" ? "lparen" : char === ")" ? "rparen" : "comma" });
+      i++;
+      atTermStart = true;
+      continue;
+    }
+    if (char === "-" && atTermStart && i + 1 < input.length && !/[\s,)]/.test(input[i + 1])) {
+      tokens.push({ type: "not" });
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      const end = input.indexOf('"', i + 1);
+      const value = input.slice(i + 1, end === -1 ? input.length : end).trim();
+      if (value) {
+        tokens.push({ type: "phrase", value });
+      }
+      i = end === -1 ? input.length : end + 1;
+      atTermStart = false;
+      continue;
+    }
+
+    let end = i;
+    while (end < input.length && !/[\s(),"]/.test(input[end])) {
+      end++;
+    }
+    const word = input.slice(i, end);
+    const colon = word.indexOf(":");
+    const field = colon > 0 ? FIELD_PREFIXES[word.slice(0, colon).toLowerCase()] : undefined;
+    if (atTermStart && field) {
+      tokens.push({ type: "field", field });
+      i += colon + 1;
+      continue;
+    }
+    tokens.push(word === "OR" ? { type: "or" } : { type: "word", value: word });
+    i = end;
+    atTermStart = false;
+  }
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly defaultField: QueryField
+  ) {}
+
+  // Top level: comma-separated tags
+  parseTags(): QueryNode | null {
+    const positives: QueryNode[] = [];
+    const exclusions: QueryNode[] = [];
+    while (this.peek()) {
+      if (this.peek()?.type === "comma" || this.peek()?.type === "rparen") {
+        this.position++;
+        continue;
+      }
+      const tag = this.parseOr(this.defaultField);
+      if (!tag) {
+        continue;
+      }
+      (isExclusion(tag) ? exclusions : positives).push(tag);
+    }
+    const anyPositive = positives.length > 1 ? { type: "or" as const, children: positives } : positives[0];
+    return combine("and", anyPositive ? [anyPositive, ...exclusions] : exclusions);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(field: QueryField): QueryNode | null {
+    const children: QueryNode[] = [];
+    while (true) {
+      const child = this.parseAnd(field);
+      if (child) {
+        children.push(child);
+      }
+      if (this.peek()?.type !== "or") {
+        break;
+      }
+      this.position++;
+    }
+    return combine("or", children);
+  }
+
+  private parseAnd(field: QueryField): QueryNode | null {
+    const children: QueryNode[] = [];
+    while (true) {
+      const next = this.peek();
+      if (!next || next.type === "or" || next.type === "comma" || next.type === "rparen") {
+        break;
+      }
+      const child = this.parseUnary(field);
+      if (child) {
+        children.push(child);
+      }
+    }
+    return combine("and", children);
+  }
+
+  private parseUnary(field: QueryField): QueryNode | null {
+    const token = this.tokens[this.position++];
+    switch (token.type) {
+      case "not": {
+        const child = this.peek() ? this.parseUnary(field) : null;
+        return child ? { type: "not", child } : null;
+      }
+      case "field":
+        return this.peek() ? this.parseUnary(token.field) : null;
+      case "lparen": {
+        // Commas inside parentheses act like OR
+        const children: QueryNode[] = [];
+        while (this.peek() && this.peek()?.type !== "rparen") {
+          if (this.peek()?.type === "comma") {
+            this.position++;
+            continue;
+          }
+          const child = this.parseOr(field);
+          if (child) {
+            children.push(child);
+          }
+        }
+        this.position++; // ")" (or past the end)
+        return combine("or", children);
+      }
+      case "word": {
+        // Place names are matched whole: "new york" is one location, not two words
+        let value = token.value;
+        let next = this.peek();
+        while (field === "location" && next?.type === "word") {
+          value += ` ${next.value}`;
+          this.position++;
+          next = this.peek();
+        }
+        return { type: "term", field, value };
+      }
+      case "phrase":
+        return { type: "term", field, value: token.value };
+      default:
+        return null;
+    }
+  }
+}
+
+// "-senior" or "-senior -manager": a tag that only removes jobs
+function isExclusion(node: QueryNode): boolean {
+  return node.type === "not" || (node.type === "and" && node.children.every(isExclusion));
+}
+
+function combine(type: "and" | "or", children: QueryNode[]): QueryNode | null {
+  if (children.length === 0) {
+    return null;
+  }
+  return children.length === 1 ? children[0] : { type, children };
+}
+
+/**
+ * Parses a title or location filter. Bare terms match `defaultField`; returns
+ * null when the input holds no terms at all.
+ */
+export function parseJobQuery(input: string, defaultField: QueryField): QueryNode | null {
+  return new Parser(tokenize(input), defaultField).parseTags();
+}
+
+function termToWhere(field: QueryField, value: string): Record<string, unknown> {
+  const contains = { contains: value, mode: "insensitive" };
+  if (field === "company") {
+    return { company: { name: contains } };
+  }
+  return { [field]: contains };
+}
+
+/**
+ * Prisma where condition for a parsed query. buildWhereSql in job-filters.ts
+ * translates these same shapes for the raw SQL paths.
+ */
+export function queryToWhere(node: QueryNode): Record<string, unknown> {
+  switch (node.type) {
+    case "term":
+      return termToWhere(node.field, node.value);
+    case "and":
+      return { AND: node.children.map(queryToWhere) };
+    case "or":
+      return { OR: node.children.map(queryToWhere) };
+    case "not":
+      // Jobs without a location can't be in the excluded place, so keep them
+      if (node.child.type === "term" && node.child.field === "location") {
+        return { OR: [{ location: null }, { NOT: queryToWhere(node.child) }] };
+      }
+      return { NOT: queryToWhere(node.child) };
+  }
+}
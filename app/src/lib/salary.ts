@@ -0,0 +1,47 @@
+export type SalaryFields = {
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  salaryCurrency?: string | null;
+  salaryPeriod?: string | null;
+};
+
+const PERIOD_SUFFIXES: Record<string, string> = {
+  YEAR: "/yr",
+  MONTH: "/mo",
+  WEEK: "/wk",
+  DAY: "/day",
+  HOUR: "/hr",
+};
+
+function formatAmount(amount: number, currency: string | null): string {
+  // Yearly figures read better compact ("$120K"); hourly ones keep their cents
+  const compact = amount >= 10_000;
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: currency ? "currency" : "decimal",
+      currency: currency ?? undefined,
+      notation: compact ? "compact" : "standard",
+      minimumFractionDigits: compact || Number.isInteger(amount) ? 0 : 2,
+      maximumFractionDigits: compact ? 1 : 2,
+    }).format(amount);
+  } catch {
+    // Unknown currency code
+    return `${amount.toLocaleString("en-US")} ${currency ?? ""}`.trim();
+  }
+}
+
+// "$120K – $150K /yr", or null when the job has no pay information
+export function formatSalaryRange(job: SalaryFields): string | null {
+  const min = job.salaryMin ?? null;
+  const max = job.salaryMax ?? null;
+  if (min === null && max === null) {
+    return null;
+  }
+  const currency = job.salaryCurrency ?? null;
+  const range =
+    min !== null && max !== null && min !== max
+      ? `${formatAmount(min, currency)} – ${formatAmount(max, currency)}`
+      : formatAmount((max ?? min) as number, currency);
+  const suffix = job.salaryPeriod ? PERIOD_SUFFIXES[job.salaryPeriod] : undefined;
+  return suffix ? `${range} ${suffix}` : range;
+}
@@ -0,0 +1,19 @@
+import type { CustomTable } from "@/lib/firestore";
+
+type SavedSearchFilters = Pick<CustomTable, "titleKeywords" | "locationKeywords" | "companyFilter">;
+
+// /api/jobs query parameters for a custom table's saved filters. Custom tables
+// always query every ATS platform, so selectedPlatforms isn't applied.
+export function getSavedSearchParams(table: SavedSearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (table.titleKeywords.length > 0) {
+    params.set("title", table.titleKeywords.join(","));
+  }
+  if (table.locationKeywords.length > 0) {
+    params.set("location", table.locationKeywords.join(","));
+  }
+  if (table.companyFilter.trim()) {
+    params.set("companyName", table.companyFilter.trim());
+  }
+  return params;
+}